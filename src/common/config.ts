@@ -4,15 +4,29 @@
 import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from './dateTime';
+import { validateEventFilter } from './eventFilter';
+import { validateEventStyles } from './eventStyle';
+import { DEFAULT_ROUTE } from './syncStore';
+import { validateTemplate } from './template';
 import { AppConfig } from '../types/config';
-import { GaroonTarget } from '../types/garoon';
+import { GaroonTarget, GaroonTargetType } from '../types/garoon';
+import { GoogleRouteConfig } from '../types/google';
 
 // .envファイルがあれば読み込む（機密情報専用）
 dotenv.config();
 
+// GAROON_TARGETSで指定できるターゲットの種類
+const TARGET_TYPES: GaroonTargetType[] = [
+  'user',
+  'organization',
+  'facility',
+  'facilityGroup',
+];
+
 /**
  * GAROON_TARGETS環境変数をパースする
- * 形式: "user:2,organization:4"
+ * 形式: "user:2,organization:4,facility:10,facilityGroup:3"
  * @param targetsStr ターゲット文字列
  * @returns パースされたターゲット配列
  */
@@ -22,8 +36,8 @@ function parseGaroonTargets(targetsStr: string): GaroonTarget[] {
   const parts = targetsStr.split(',').map((s) => s.trim());
   for (const part of parts) {
     const [type, id] = part.split(':').map((s) => s.trim());
-    if (type && id && (type === 'user' || type === 'organization')) {
-      targets.push({ type, id });
+    if (type && id && TARGET_TYPES.includes(type as GaroonTargetType)) {
+      targets.push({ type: type as GaroonTargetType, id });
     } else {
       console.warn(`無効なターゲット形式をスキップしました: ${part}`);
     }
@@ -31,7 +45,7 @@ function parseGaroonTargets(targetsStr: string): GaroonTarget[] {
 
   if (targets.length === 0) {
     throw new Error(
-      `GAROON_TARGETSの形式が不正です: ${targetsStr}。正しい形式: user:2,organization:4`
+      `GAROON_TARGETSの形式が不正です: ${targetsStr}。正しい形式: user:2,organization:4,facility:10,facilityGroup:3`
     );
   }
 
@@ -89,6 +103,11 @@ export function loadConfig(configPath?: string): AppConfig {
       config.google.calendarId = process.env.GOOGLE_CALENDAR_ID;
     }
 
+    // Domain-Wide Delegationで代理するユーザー
+    if (process.env.GOOGLE_IMPERSONATE_SUBJECT) {
+      config.google.subject = process.env.GOOGLE_IMPERSONATE_SUBJECT;
+    }
+
     // Google OAuth認証情報（将来の拡張のため）
     if (process.env.GOOGLE_CLIENT_ID) {
       if (!config.google.oauth) {
@@ -139,14 +158,61 @@ export function loadConfig(configPath?: string): AppConfig {
           if (!config.google.credentials && fileConfig.google?.credentials) {
             config.google.credentials = fileConfig.google.credentials;
           }
+          if (!config.google.subject && fileConfig.google?.subject) {
+            config.google.subject = fileConfig.google.subject;
+          }
+          if (Array.isArray(fileConfig.google?.routes)) {
+            config.google.routes = fileConfig.google.routes;
+          }
 
           if (fileConfig.sync) {
             if (typeof fileConfig.sync.days === 'number')
               config.sync.days = fileConfig.sync.days;
             if (typeof fileConfig.sync.excludePrivate === 'boolean')
               config.sync.excludePrivate = fileConfig.sync.excludePrivate;
+            if (fileConfig.sync.privateEvents)
+              config.sync.privateEvents = fileConfig.sync.privateEvents;
             if (typeof fileConfig.sync.intervalMinutes === 'number')
               config.sync.intervalMinutes = fileConfig.sync.intervalMinutes;
+            if (
+              !process.env.DEFAULT_TIMEZONE &&
+              fileConfig.sync.defaultTimeZone
+            )
+              config.sync.defaultTimeZone = fileConfig.sync.defaultTimeZone;
+            if (fileConfig.sync.writeBack) {
+              config.sync.writeBack = {
+                ...config.sync.writeBack!,
+                ...fileConfig.sync.writeBack,
+              };
+            }
+            if (fileConfig.sync.attendees) {
+              config.sync.attendees = {
+                ...config.sync.attendees!,
+                ...fileConfig.sync.attendees,
+              };
+            }
+            if (fileConfig.sync.deletionSafety) {
+              config.sync.deletionSafety = {
+                ...config.sync.deletionSafety!,
+                ...fileConfig.sync.deletionSafety,
+              };
+            }
+            if (fileConfig.sync.facilities) {
+              config.sync.facilities = { ...fileConfig.sync.facilities };
+            }
+            if (fileConfig.sync.templates) {
+              config.sync.templates = { ...fileConfig.sync.templates };
+            }
+            if (fileConfig.sync.styles) {
+              config.sync.styles = fileConfig.sync.styles;
+            }
+            if (fileConfig.sync.filter) {
+              config.sync.filter = {
+                defaultAction:
+                  fileConfig.sync.filter.defaultAction || 'include',
+                rules: fileConfig.sync.filter.rules || [],
+              };
+            }
           }
 
           if (!config.teams.webhookUrl && fileConfig.teams?.webhookUrl) {
@@ -158,6 +224,8 @@ export function loadConfig(configPath?: string): AppConfig {
 
           if (fileConfig.database?.path)
             config.database.path = fileConfig.database.path;
+          if (fileConfig.database?.backend)
+            config.database.backend = fileConfig.database.backend;
         }
       } catch (error) {
         console.warn(
@@ -220,6 +288,79 @@ export function validateConfig(config: AppConfig): void {
     );
   }
 
+  if (config.google.subject) {
+    validateSubject(config.google.subject, 'google.subject');
+  }
+
+  if (config.google.routes) {
+    validateRoutes(config.google.routes);
+  }
+
+  // 参加者の招待・リソースカレンダーの追加にはDomain-Wide Delegationが必要
+  const delegatedFeature = config.sync.attendees?.invite
+    ? '参加者の招待(sync.attendees.invite)'
+    : Object.keys(config.sync.facilities?.resourceCalendars || {}).length > 0
+      ? '施設のリソースカレンダーの追加(sync.facilities.resourceCalendars)'
+      : null;
+  if (delegatedFeature) {
+    const routesWithoutSubject = (config.google.routes || [])
+      .filter((r) => !r.subject && !config.google.subject)
+      .map((r) => r.name);
+    if (
+      (!config.google.routes && !config.google.subject) ||
+      routesWithoutSubject.length > 0
+    ) {
+      throw new Error(
+        `${delegatedFeature}にはDomain-Wide Delegationが必要です。GOOGLE_IMPERSONATE_SUBJECTまたはgoogle.subjectを設定してください${
+          routesWithoutSubject.length > 0
+            ? ` (対象ルート: ${routesWithoutSubject.join(', ')})`
+            : ''
+        }`
+      );
+    }
+  }
+
+  if (
+    config.sync.defaultTimeZone &&
+    !isValidTimeZone(config.sync.defaultTimeZone)
+  ) {
+    throw new Error(
+      `タイムゾーンが不正です: ${config.sync.defaultTimeZone}。DEFAULT_TIMEZONEにはAsia/Tokyoなどのタイムゾーン名を設定してください`
+    );
+  }
+
+  for (const [field, template] of Object.entries(
+    config.sync.templates || {}
+  )) {
+    if (typeof template !== 'string') {
+      throw new Error(`sync.templates.${field}には文字列を指定してください`);
+    }
+    validateTemplate(template);
+  }
+
+  if (config.sync.filter) {
+    validateEventFilter(config.sync.filter);
+  }
+
+  if (config.sync.styles) {
+    validateEventStyles(config.sync.styles);
+  }
+
+  if (
+    config.sync.privateEvents &&
+    !['exclude', 'busy', 'full'].includes(config.sync.privateEvents)
+  ) {
+    throw new Error(
+      `sync.privateEventsには "exclude"、"busy"、"full" のいずれかを指定してください: ${config.sync.privateEvents}`
+    );
+  }
+
+  if (!['sqlite', 'json'].includes(config.database.backend)) {
+    throw new Error(
+      `database.backendには "sqlite" または "json" を指定してください: ${config.database.backend}`
+    );
+  }
+
   // テスト用に最小限の設定を許容する
   if (process.env.NODE_ENV === 'test') {
     return;
@@ -233,6 +374,80 @@ export function validateConfig(config: AppConfig): void {
   }
 }
 
+/**
+ * Domain-Wide Delegationで代理するユーザーの設定を検証する
+ * @param subject 代理するユーザーのメールアドレス
+ * @param label エラーメッセージに表示する設定項目名
+ * @throws メールアドレスの形式でない場合はエラーをスロー
+ */
+function validateSubject(subject: string, label: string): void {
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(subject)) {
+    throw new Error(
+      `${label} はGoogle Workspaceユーザーのメールアドレスで指定してください: ${subject}`
+    );
+  }
+}
+
+/**
+ * 同期先ルートの設定を検証する
+ * @param routes 同期先ルートの設定
+ * @throws 設定が無効な場合はエラーをスロー
+ */
+function validateRoutes(routes: GoogleRouteConfig[]): void {
+  if (routes.length === 0) {
+    throw new Error('google.routesが空です。同期先のルートを1つ以上設定してください');
+  }
+
+  const names = new Set<string>();
+  for (const route of routes) {
+    if (!route.name) {
+      throw new Error('google.routesにルート名(name)が設定されていないルートがあります');
+    }
+    // 単一カレンダー設定の同期情報と区別できなくなるため、既定のルート名は使えない
+    if (route.name === DEFAULT_ROUTE) {
+      throw new Error(
+        `google.routesのルート名に ${DEFAULT_ROUTE} は使用できません。別の名前を設定してください`
+      );
+    }
+    if (names.has(route.name)) {
+      throw new Error(`google.routesのルート名が重複しています: ${route.name}`);
+    }
+    names.add(route.name);
+
+    if (!route.calendarId) {
+      throw new Error(
+        `ルート ${route.name} のGoogleカレンダーID(calendarId)が設定されていません`
+      );
+    }
+
+    if (!Array.isArray(route.targets) || route.targets.length === 0) {
+      throw new Error(
+        `ルート ${route.name} の同期対象ターゲット(targets)が設定されていません`
+      );
+    }
+    for (const target of route.targets) {
+      if (!TARGET_TYPES.includes(target.type) || !target.id) {
+        throw new Error(
+          `ルート ${route.name} のターゲットの形式が不正です: ${JSON.stringify(target)}`
+        );
+      }
+    }
+
+    if (route.subject) {
+      validateSubject(route.subject, `ルート ${route.name} のsubject`);
+    }
+
+    if (route.credentials) {
+      const routeCredentialsPath = path.resolve(process.cwd(), route.credentials);
+      if (!fs.existsSync(routeCredentialsPath)) {
+        throw new Error(
+          `ルート ${route.name} のGoogle認証情報ファイルが見つかりません: ${routeCredentialsPath}`
+        );
+      }
+    }
+  }
+}
+
 /**
  * デフォルト設定を取得
  */
@@ -259,7 +474,22 @@ export function getDefaultConfig(): AppConfig {
       days: 30,
       excludePrivate: true,
       intervalMinutes: 15,
-      defaultTimeZone: process.env.DEFAULT_TIMEZONE || 'Asia/Tokyo',
+      defaultTimeZone: process.env.DEFAULT_TIMEZONE || DEFAULT_TIME_ZONE,
+      deletionSafety: {
+        maxDeletions: 20,
+        maxFetchDropRatio: 0.5,
+      },
+      writeBack: {
+        enabled: false,
+        conflictPolicy: 'garoon',
+        fields: ['start', 'end', 'location'],
+      },
+      attendees: {
+        invite: false,
+        sendUpdates: 'none',
+        useGaroonDirectory: true,
+        cacheHours: 24,
+      },
     },
     teams: {
       webhookUrl: '', // 機密情報のため.envで設定
@@ -267,6 +497,7 @@ export function getDefaultConfig(): AppConfig {
     },
     database: {
       path: './data/sync.db',
+      backend: 'sqlite',
     },
   };
 }
@@ -1,81 +1,118 @@
-// 同期データの永続化（JSONファイル）
+// 同期データの永続化（SQLite / JSONファイル）
 
 import fs from 'fs';
 import path from 'path';
 import { AppConfig } from '../types/config';
+import { JsonSyncStore } from './jsonSyncStore';
+import { SqliteSyncStore } from './sqliteSyncStore';
+import {
+  DEFAULT_ROUTE,
+  PendingDeletion,
+  SyncedEventInfo,
+  SyncedInstanceInfo,
+  SyncInfoDetails,
+  SyncLogEntry,
+  SyncStore,
+} from './syncStore';
 
-export interface SyncLogEntry {
-  id: number;
-  timestamp: string;
-  action: string;
-  garoon_event_id: string | null;
-  google_event_id: string | null;
-  details: string | null;
-}
+export {
+  DEFAULT_ROUTE,
+  PendingDeletion,
+  SyncedEventInfo,
+  SyncedInstanceInfo,
+  SyncInfoDetails,
+  SyncLogEntry,
+} from './syncStore';
 
-export interface SyncedEventInfo {
-  garoonEventId: string;
-  googleEventId: string;
-  lastSynced: string;
-  garoonUpdatedAt: string;
+export interface SyncDatabaseOptions {
+  // trueの場合は読み込みのみ行い、ファイルの作成・移行・書き込みを行わない（計画モード用）
+  readOnly?: boolean;
 }
 
-interface SyncData {
-  events: Record<string, SyncedEventInfo>;
-  logs: SyncLogEntry[];
-  lastLogId: number;
+/**
+ * JSONファイルの同期データをSQLiteに移行（SQLiteのファイルを新規作成した場合のみ）
+ * 移行後のJSONファイルは .migrated を付けた名前に変更し、再度取り込まれないようにする
+ * 読み込み専用の場合は取り込みのみ行い、JSONファイルはそのまま残す
+ * @param store 新規作成したSQLiteの保存先
+ * @param jsonPath JSONファイルのパス
+ * @param readOnly 読み込み専用かどうか
+ */
+function migrateFromJson(
+  store: SqliteSyncStore,
+  jsonPath: string,
+  readOnly: boolean
+): void {
+  const data = new JsonSyncStore(jsonPath, readOnly).exportData();
+  store.importData(data);
+  if (readOnly) {
+    return;
+  }
+
+  const migratedPath = `${jsonPath}.migrated`;
+  fs.renameSync(jsonPath, migratedPath);
+  console.log(
+    `JSONファイルの同期情報${Object.keys(data.events).length}件をSQLiteに移行しました（元のファイル: ${migratedPath}）`
+  );
 }
 
 export class SyncDatabase {
-  private dataPath: string;
-  private data: SyncData;
+  private store: SyncStore;
 
-  constructor(config: AppConfig) {
-    this.dataPath = config.database.path.replace(/\.db$/, '.json');
+  constructor(config: AppConfig, options: SyncDatabaseOptions = {}) {
+    const dbPath = config.database.path;
+    const jsonPath = dbPath.replace(/\.db$/, '.json');
+    const readOnly = options.readOnly ?? false;
 
-    const dataDir = path.dirname(this.dataPath);
-    if (!fs.existsSync(dataDir)) {
+    const dataDir = path.dirname(dbPath);
+    if (!readOnly && !fs.existsSync(dataDir)) {
       fs.mkdirSync(dataDir, { recursive: true });
     }
 
-    this.data = this.loadData();
-  }
+    if (config.database.backend === 'json') {
+      this.store = new JsonSyncStore(jsonPath, readOnly);
+      return;
+    }
 
-  private loadData(): SyncData {
-    if (fs.existsSync(this.dataPath)) {
-      try {
-        const content = fs.readFileSync(this.dataPath, 'utf8');
-        return JSON.parse(content);
-      } catch {
-        console.warn('データファイルの読み込みに失敗しました。新規作成します。');
-      }
+    const isNew = !fs.existsSync(dbPath);
+    const store = new SqliteSyncStore(dbPath, readOnly);
+    if (isNew && jsonPath !== dbPath && fs.existsSync(jsonPath)) {
+      migrateFromJson(store, jsonPath, readOnly);
     }
-    return { events: {}, logs: [], lastLogId: 0 };
+    this.store = store;
+  }
+
+  /**
+   * 同期1回分の書き込みを開始（確定するまでまとめて保存する）
+   */
+  beginTransaction(): void {
+    this.store.beginTransaction();
   }
 
-  private saveData(): void {
-    fs.writeFileSync(this.dataPath, JSON.stringify(this.data, null, 2), 'utf8');
+  /**
+   * 開始した書き込みを確定
+   */
+  commitTransaction(): void {
+    this.store.commitTransaction();
+  }
+
+  /**
+   * 保存先を閉じる（未確定の書き込みは確定する）
+   */
+  close(): void {
+    this.store.close();
   }
 
   /**
    * イベントの同期情報を取得
    * @param garoonEventId ガルーンイベントID
+   * @param route ルート名
    * @returns 同期情報（存在しない場合はnull）
    */
-  getSyncInfo(garoonEventId: string): {
-    googleEventId: string;
-    lastSynced: string;
-    garoonUpdatedAt: string;
-  } | null {
-    const event = this.data.events[garoonEventId];
-    if (!event) {
-      return null;
-    }
-    return {
-      googleEventId: event.googleEventId,
-      lastSynced: event.lastSynced,
-      garoonUpdatedAt: event.garoonUpdatedAt,
-    };
+  getSyncInfo(
+    garoonEventId: string,
+    route: string = DEFAULT_ROUTE
+  ): SyncedEventInfo | null {
+    return this.store.getEvent(garoonEventId, route);
   }
 
   /**
@@ -83,28 +120,90 @@ export class SyncDatabase {
    * @param garoonEventId ガルーンイベントID
    * @param googleEventId GoogleイベントID
    * @param garoonUpdatedAt ガルーンの最終更新日時
+   * @param details イベントの開始・終了日時など（任意）
+   * @param route ルート名
    */
   saveSyncInfo(
     garoonEventId: string,
     googleEventId: string,
-    garoonUpdatedAt: string
+    garoonUpdatedAt: string,
+    details: SyncInfoDetails = {},
+    route: string = DEFAULT_ROUTE
   ): void {
-    this.data.events[garoonEventId] = {
-      garoonEventId,
-      googleEventId,
-      lastSynced: new Date().toISOString(),
-      garoonUpdatedAt,
-    };
-    this.saveData();
+    const existing = this.store.getEvent(garoonEventId, route);
+    this.store.putEvent(
+      {
+        garoonEventId,
+        googleEventId,
+        route: route === DEFAULT_ROUTE ? undefined : route,
+        lastSynced: new Date().toISOString(),
+        garoonUpdatedAt,
+        instances: existing?.instances,
+        ...details,
+      },
+      route
+    );
+  }
+
+  /**
+   * 編集の競合を記録（同期情報の次回保存時に解除される）
+   * @param garoonEventId ガルーンイベントID
+   * @param route ルート名
+   */
+  markConflict(garoonEventId: string, route: string = DEFAULT_ROUTE): void {
+    const event = this.store.getEvent(garoonEventId, route);
+    if (!event) {
+      return;
+    }
+    event.conflictDetectedAt = new Date().toISOString();
+    this.store.putEvent(event, route);
+  }
+
+  /**
+   * 繰り返しイベントの回ごとの変更を保存
+   * @param garoonEventId ガルーンイベントID（繰り返しイベント）
+   * @param originalStart 本来の開始日時
+   * @param info 回ごとの変更情報
+   * @param route ルート名
+   */
+  saveInstanceInfo(
+    garoonEventId: string,
+    originalStart: string,
+    info: SyncedInstanceInfo,
+    route: string = DEFAULT_ROUTE
+  ): void {
+    const event = this.store.getEvent(garoonEventId, route);
+    if (!event) {
+      return;
+    }
+    event.instances = { ...event.instances, [originalStart]: info };
+    this.store.putEvent(event, route);
+  }
+
+  /**
+   * 繰り返しイベントの回ごとの変更をすべて削除
+   * @param garoonEventId ガルーンイベントID（繰り返しイベント）
+   * @param route ルート名
+   */
+  clearInstanceInfo(
+    garoonEventId: string,
+    route: string = DEFAULT_ROUTE
+  ): void {
+    const event = this.store.getEvent(garoonEventId, route);
+    if (!event || !event.instances) {
+      return;
+    }
+    delete event.instances;
+    this.store.putEvent(event, route);
   }
 
   /**
    * 同期情報を削除
    * @param garoonEventId ガルーンイベントID
+   * @param route ルート名
    */
-  deleteSyncInfo(garoonEventId: string): void {
-    delete this.data.events[garoonEventId];
-    this.saveData();
+  deleteSyncInfo(garoonEventId: string, route: string = DEFAULT_ROUTE): void {
+    this.store.deleteEvent(garoonEventId, route);
   }
 
   /**
@@ -112,21 +211,79 @@ export class SyncDatabase {
    * @param googleEventId GoogleイベントID
    */
   deleteSyncInfoByGoogleEventId(googleEventId: string): void {
-    for (const [garoonId, event] of Object.entries(this.data.events)) {
-      if (event.googleEventId === googleEventId) {
-        delete this.data.events[garoonId];
-        break;
-      }
-    }
-    this.saveData();
+    this.store.deleteEventByGoogleEventId(googleEventId);
   }
 
   /**
    * 全ての同期済みイベント情報を取得
+   * @param route ルート名（省略時は全ルート）
    * @returns 同期済みイベント情報の配列
    */
-  getAllSyncedEvents(): SyncedEventInfo[] {
-    return Object.values(this.data.events);
+  getAllSyncedEvents(route?: string): SyncedEventInfo[] {
+    return this.store.listEvents(route);
+  }
+
+  /**
+   * 前回の同期でガルーンから取得したイベント件数を取得
+   * @param route ルート名
+   * @returns 取得件数（記録がない場合はundefined）
+   */
+  getLastFetchCount(route: string = DEFAULT_ROUTE): number | undefined {
+    return this.store.getLastFetchCount(route);
+  }
+
+  /**
+   * ガルーンから取得したイベント件数を記録
+   * @param count 取得件数
+   * @param route ルート名
+   */
+  setLastFetchCount(count: number, route: string = DEFAULT_ROUTE): void {
+    this.store.setLastFetchCount(count, route);
+  }
+
+  /**
+   * Google Calendarの同期トークンを取得
+   * @param route ルート名
+   * @returns 同期トークン（未取得の場合はundefined）
+   */
+  getGoogleSyncToken(route: string = DEFAULT_ROUTE): string | undefined {
+    return this.store.getGoogleSyncToken(route);
+  }
+
+  /**
+   * Google Calendarの同期トークンを保存
+   * @param token 同期トークン
+   * @param route ルート名
+   */
+  setGoogleSyncToken(token: string, route: string = DEFAULT_ROUTE): void {
+    this.store.setGoogleSyncToken(token, route);
+  }
+
+  /**
+   * 承認待ちの削除一覧を取得
+   * @param route ルート名
+   * @returns 承認待ちの削除の配列
+   */
+  getPendingDeletions(route: string = DEFAULT_ROUTE): PendingDeletion[] {
+    return this.store.getPendingDeletions(route);
+  }
+
+  /**
+   * 承認待ちの削除一覧を置き換える（他のルートの承認待ちは維持する）
+   * @param deletions 承認待ちの削除の配列（空配列で解除）
+   * @param route ルート名
+   */
+  setPendingDeletions(
+    deletions: PendingDeletion[],
+    route: string = DEFAULT_ROUTE
+  ): void {
+    this.store.setPendingDeletions(
+      deletions.map((d) => ({
+        ...d,
+        route: route === DEFAULT_ROUTE ? undefined : route,
+      })),
+      route
+    );
   }
 
   /**
@@ -142,22 +299,13 @@ export class SyncDatabase {
     googleEventId?: string,
     details?: string
   ): void {
-    this.data.lastLogId++;
-    this.data.logs.push({
-      id: this.data.lastLogId,
+    this.store.appendLog({
       timestamp: new Date().toISOString(),
       action,
       garoon_event_id: garoonEventId || null,
       google_event_id: googleEventId || null,
       details: details || null,
     });
-
-    // ログが1000件を超えたら古いものを削除
-    if (this.data.logs.length > 1000) {
-      this.data.logs = this.data.logs.slice(-500);
-    }
-
-    this.saveData();
   }
 
   /**
@@ -166,7 +314,7 @@ export class SyncDatabase {
    * @returns 同期ログの配列
    */
   getRecentLogs(limit: number = 100): SyncLogEntry[] {
-    return this.data.logs.slice(-limit).reverse();
+    return this.store.getRecentLogs(limit);
   }
 
   /**
@@ -176,13 +324,6 @@ export class SyncDatabase {
   cleanupOldSyncInfo(daysToKeep: number = 90): void {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-    const cutoffStr = cutoffDate.toISOString();
-
-    for (const [garoonId, event] of Object.entries(this.data.events)) {
-      if (event.lastSynced < cutoffStr) {
-        delete this.data.events[garoonId];
-      }
-    }
-    this.saveData();
+    this.store.deleteEventsSyncedBefore(cutoffDate.toISOString());
   }
 }
@@ -0,0 +1,193 @@
+// タイムゾーンを考慮した日付・日時の計算
+
+// タイムゾーンが設定されていない場合に使用するタイムゾーン
+export const DEFAULT_TIME_ZONE = 'Asia/Tokyo';
+
+// タイムゾーンごとの日時の書式（生成コストが高いため再利用する）
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * タイムゾーンの日時の書式を取得
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns 日時の書式
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * 指定した時点のタイムゾーンでの日付・時刻の各要素を取得
+ * @param date 時点
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns 年・月・日・時・分・秒
+ */
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+/**
+ * タイムゾーンとして使用できるか判定
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns 使用できる場合true
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 指定した時点のタイムゾーンのUTCオフセットを取得（夏時間を考慮）
+ * @param date 時点
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns UTCオフセット（分）
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  const epoch = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - epoch) / 60000);
+}
+
+/**
+ * UTCオフセットを文字列に変換
+ * @param offsetMinutes UTCオフセット（分）
+ * @returns UTCオフセット（例: +09:00）
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  const minutes = String(abs % 60).padStart(2, '0');
+  return `${sign}${hours}:${minutes}`;
+}
+
+/**
+ * 指定した時点のタイムゾーンでの日付を取得
+ * @param date 時点
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns 日付 (YYYY-MM-DD)
+ */
+export function formatDateInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return [
+    String(p.year).padStart(4, '0'),
+    String(p.month).padStart(2, '0'),
+    String(p.day).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * 指定した時点のタイムゾーンでの時刻を取得
+ * @param date 時点
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns 時刻 (HH:mm)
+ */
+export function formatTimeInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return [
+    String(p.hour).padStart(2, '0'),
+    String(p.minute).padStart(2, '0'),
+  ].join(':');
+}
+
+/**
+ * 日付に日数を加算（タイムゾーンに依存しない暦の計算）
+ * @param date 日付 (YYYY-MM-DD)
+ * @param days 加算する日数（負の値で減算）
+ * @returns 日付 (YYYY-MM-DD)
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map((v) => parseInt(v, 10));
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * タイムゾーンの現地日時をUTCオフセット付きのISO 8601形式に変換
+ * 夏時間の切り替えで存在しない現地時刻は、切り替え後の時刻として扱う
+ * @param date 日付 (YYYY-MM-DD)
+ * @param time 時刻 (HH:mm:ss)
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns 日時（例: 2024-01-01T00:00:00+09:00）
+ */
+export function toZonedDateTime(
+  date: string,
+  time: string,
+  timeZone: string
+): string {
+  const [year, month, day] = date.split('-').map((v) => parseInt(v, 10));
+  const [hour, minute, second] = time.split(':').map((v) => parseInt(v, 10));
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+
+  // 現地時刻をUTCとみなした時点のオフセットから始め、補正後の時点のオフセットで確定する
+  // 存在しない時刻では2つのオフセットを行き来するため、繰り返しは2回までとする
+  let offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  for (let i = 0; i < 2; i++) {
+    const next = getTimeZoneOffset(
+      new Date(asUtc - offset * 60000),
+      timeZone
+    );
+    if (next === offset) {
+      break;
+    }
+    offset = next;
+  }
+
+  // 確定した時点の実際のオフセットで表記する（存在しない時刻は切り替え後の時刻になる）
+  const instant = asUtc - offset * 60000;
+  const actualOffset = getTimeZoneOffset(new Date(instant), timeZone);
+  const local = new Date(instant + actualOffset * 60000);
+  return `${local.toISOString().slice(0, 19)}${formatUtcOffset(actualOffset)}`;
+}
+
+/**
+ * タイムゾーンでの日の始まりの日時を取得
+ * @param date 日付 (YYYY-MM-DD)
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns 日時（例: 2024-01-01T00:00:00+09:00）
+ */
+export function startOfDay(date: string, timeZone: string): string {
+  return toZonedDateTime(date, '00:00:00', timeZone);
+}
+
+/**
+ * タイムゾーンでの日の終わりの日時を取得
+ * @param date 日付 (YYYY-MM-DD)
+ * @param timeZone タイムゾーン（IANA形式）
+ * @returns 日時（例: 2024-01-01T23:59:59+09:00）
+ */
+export function endOfDay(date: string, timeZone: string): string {
+  return toZonedDateTime(date, '23:59:59', timeZone);
+}
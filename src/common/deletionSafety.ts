@@ -0,0 +1,76 @@
+// 大量削除の防止（削除の安全確認）
+
+import { DeletionSafetyConfig } from '../types/config';
+
+export interface DeletionSafetyInput {
+  // 取得に失敗したターゲット（"type:id"形式）
+  failedTargets: string[];
+  // 今回ガルーンから取得したイベント件数
+  fetchedCount: number;
+  // 前回の同期でガルーンから取得したイベント件数（記録がない場合はundefined）
+  previousFetchCount?: number;
+  // 今回削除しようとしているイベント件数
+  deletionCount: number;
+  // 利用者が削除を承認済みかどうか
+  approved: boolean;
+}
+
+export interface DeletionSafetyResult {
+  allowed: boolean;
+  reasons: string[];
+}
+
+/**
+ * 削除を実行してよいかを判定する
+ * ターゲットの取得失敗時は承認の有無にかかわらず削除を保留し、
+ * 件数の急減・削除件数の超過は承認済みの場合のみ削除を許可する
+ * @param input 判定に使用する同期状況
+ * @param config 削除の安全設定
+ * @returns 判定結果と保留理由
+ */
+export function evaluateDeletionSafety(
+  input: DeletionSafetyInput,
+  config: DeletionSafetyConfig
+): DeletionSafetyResult {
+  if (input.deletionCount === 0) {
+    return { allowed: true, reasons: [] };
+  }
+
+  // ターゲットの取得に失敗している場合、取得できなかったイベントが削除扱いになるため常に保留
+  if (input.failedTargets.length > 0) {
+    return {
+      allowed: false,
+      reasons: [
+        `ガルーンのターゲットの取得に失敗しました: ${input.failedTargets.join(', ')}`,
+      ],
+    };
+  }
+
+  const reasons: string[] = [];
+
+  if (
+    input.previousFetchCount !== undefined &&
+    input.previousFetchCount > 0
+  ) {
+    const dropRatio =
+      (input.previousFetchCount - input.fetchedCount) /
+      input.previousFetchCount;
+    if (dropRatio > config.maxFetchDropRatio) {
+      reasons.push(
+        `取得件数が前回から急減しました: ${input.previousFetchCount}件 -> ${input.fetchedCount}件`
+      );
+    }
+  }
+
+  if (input.deletionCount > config.maxDeletions) {
+    reasons.push(
+      `削除件数が上限を超えています: ${input.deletionCount}件 (上限: ${config.maxDeletions}件)`
+    );
+  }
+
+  if (reasons.length > 0 && !input.approved) {
+    return { allowed: false, reasons };
+  }
+
+  return { allowed: true, reasons };
+}
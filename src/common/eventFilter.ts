@@ -0,0 +1,227 @@
+// ルールによる同期対象のイベントの絞り込み
+
+import { formatTimeInTimeZone } from './dateTime';
+import { getEventFacilities } from './facilities';
+import {
+  EventFilterCondition,
+  EventFilterConfig,
+  EventFilterRule,
+} from '../types/config';
+import {
+  GaroonAttendee,
+  GaroonEvent,
+  GaroonFacility,
+} from '../types/garoon';
+
+export interface EventFilterResult {
+  included: boolean;
+  // 一致したルールの名前（どのルールにも一致しない場合は省略）
+  rule?: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EVENT_TYPES: GaroonEvent['eventType'][] = [
+  'REGULAR',
+  'REPEATING',
+  'TEMPORARY',
+  'ALL_DAY',
+];
+
+/**
+ * ルールの表示名を取得
+ * @param rule ルール
+ * @param index ルールの順番（0始まり）
+ * @returns ルール名（未設定の場合は順番）
+ */
+function getRuleName(rule: EventFilterRule, index: number): string {
+  return rule.name || `#${index + 1}`;
+}
+
+/**
+ * 参加者・施設が指定した値（ID・コード・名前）のいずれかに一致するか判定
+ * @param attendees 参加者・施設
+ * @param values 指定した値
+ * @returns 一致する場合true
+ */
+function includesAny(
+  attendees: (GaroonAttendee | GaroonFacility)[],
+  values: string[]
+): boolean {
+  return attendees.some((a) =>
+    values.some((v) => v === a.id || v === a.code || v === a.name)
+  );
+}
+
+/**
+ * 開始時刻が範囲内か判定
+ * @param time 開始時刻 (HH:mm)
+ * @param from 範囲の開始 (HH:mm、省略時は00:00)
+ * @param to 範囲の終了 (HH:mm、含まない。省略時は24:00)
+ * @returns 範囲内の場合true
+ */
+function isInTimeRange(time: string, from = '00:00', to = '24:00'): boolean {
+  // 開始が終了より後の場合は日をまたぐ範囲とみなす
+  if (from > to) {
+    return time >= from || time < to;
+  }
+  return time >= from && time < to;
+}
+
+/**
+ * イベントがルールの条件をすべて満たすか判定
+ * @param event ガルーンイベント
+ * @param condition ルールの条件
+ * @param timeZone 開始時刻を判定するタイムゾーン
+ * @returns 条件を満たす場合true
+ */
+function matchesCondition(
+  event: GaroonEvent,
+  condition: EventFilterCondition,
+  timeZone: string
+): boolean {
+  if (
+    condition.eventMenus &&
+    !condition.eventMenus.includes(event.eventMenu || '')
+  ) {
+    return false;
+  }
+
+  if (
+    condition.subjectPattern &&
+    !new RegExp(condition.subjectPattern).test(event.subject)
+  ) {
+    return false;
+  }
+
+  if (
+    condition.attendees &&
+    !includesAny(
+      event.attendees.filter((a) => a.type !== 'FACILITY'),
+      condition.attendees
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    condition.facilities &&
+    !includesAny(getEventFacilities(event), condition.facilities)
+  ) {
+    return false;
+  }
+
+  if (condition.eventTypes && !condition.eventTypes.includes(event.eventType)) {
+    return false;
+  }
+
+  if (
+    condition.minDurationMinutes !== undefined ||
+    condition.maxDurationMinutes !== undefined
+  ) {
+    const minutes =
+      (Date.parse(event.end.dateTime) - Date.parse(event.start.dateTime)) /
+      60000;
+    if (
+      (condition.minDurationMinutes !== undefined &&
+        minutes < condition.minDurationMinutes) ||
+      (condition.maxDurationMinutes !== undefined &&
+        minutes > condition.maxDurationMinutes)
+    ) {
+      return false;
+    }
+  }
+
+  if (condition.startTimeFrom || condition.startTimeTo) {
+    // 終日イベントには開始時刻がないため、時刻の条件には一致しない
+    if (event.isAllDay) {
+      return false;
+    }
+    const time = formatTimeInTimeZone(
+      new Date(event.start.dateTime),
+      timeZone
+    );
+    if (!isInTimeRange(time, condition.startTimeFrom, condition.startTimeTo)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * イベントを同期するかをルールで判定
+ * 先頭から順に評価し、最初に一致したルールの動作に従う
+ * @param event ガルーンイベント
+ * @param filter 絞り込みの設定
+ * @param timeZone 開始時刻を判定するタイムゾーン
+ * @returns 判定結果と一致したルール
+ */
+export function evaluateEventFilter(
+  event: GaroonEvent,
+  filter: EventFilterConfig,
+  timeZone: string
+): EventFilterResult {
+  for (const [index, rule] of filter.rules.entries()) {
+    if (matchesCondition(event, rule, timeZone)) {
+      return {
+        included: rule.action === 'include',
+        rule: getRuleName(rule, index),
+      };
+    }
+  }
+  return { included: filter.defaultAction === 'include' };
+}
+
+/**
+ * 絞り込みの設定を検証
+ * @param filter 絞り込みの設定
+ * @throws 動作・正規表現・時刻などが不正な場合はエラーをスロー
+ */
+export function validateEventFilter(filter: EventFilterConfig): void {
+  const actions = ['include', 'exclude'];
+  if (!actions.includes(filter.defaultAction)) {
+    throw new Error(
+      `sync.filter.defaultActionには "include" または "exclude" を指定してください: ${filter.defaultAction}`
+    );
+  }
+  if (!Array.isArray(filter.rules)) {
+    throw new Error('sync.filter.rulesにはルールの配列を指定してください');
+  }
+
+  filter.rules.forEach((rule, index) => {
+    const label = `sync.filter.rulesのルール ${getRuleName(rule, index)}`;
+
+    if (!actions.includes(rule.action)) {
+      throw new Error(
+        `${label}: actionには "include" または "exclude" を指定してください`
+      );
+    }
+
+    if (rule.subjectPattern !== undefined) {
+      try {
+        new RegExp(rule.subjectPattern);
+      } catch (error) {
+        throw new Error(
+          `${label}: subjectPatternの正規表現が不正です: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    const invalidType = rule.eventTypes?.find((t) => !EVENT_TYPES.includes(t));
+    if (invalidType) {
+      throw new Error(
+        `${label}: eventTypesには ${EVENT_TYPES.join(' / ')} を指定してください: ${invalidType}`
+      );
+    }
+
+    for (const time of [rule.startTimeFrom, rule.startTimeTo]) {
+      if (time !== undefined && !TIME_PATTERN.test(time)) {
+        throw new Error(
+          `${label}: 時刻はHH:mm形式で指定してください: ${time}`
+        );
+      }
+    }
+  });
+}
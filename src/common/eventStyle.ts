@@ -0,0 +1,165 @@
+// 予定メニュー・予定の種類に応じたGoogleイベントの表示設定
+
+import { validateTemplate } from './template';
+import { EventStyle, EventStyleRule } from '../types/config';
+import { GaroonEvent } from '../types/garoon';
+import { GoogleEvent } from '../types/google';
+
+const COLOR_ID_PATTERN = /^([1-9]|1[01])$/;
+const TRANSPARENCIES = ['opaque', 'transparent'];
+const EVENT_TYPES = ['default', 'outOfOffice', 'focusTime'];
+const REMINDER_METHODS = ['email', 'popup'];
+const AUTO_DECLINE_MODES = [
+  'declineNone',
+  'declineAllConflictingInvitations',
+  'declineOnlyNewConflictingInvitations',
+];
+// Google Calendarのリマインダーの上限（件数・4週間前まで）
+const MAX_REMINDERS = 5;
+const MAX_REMINDER_MINUTES = 40320;
+
+/**
+ * イベントがルールの条件をすべて満たすか判定
+ * @param event ガルーンイベント
+ * @param rule 表示設定のルール
+ * @returns 条件を満たす場合true
+ */
+function matchesRule(event: GaroonEvent, rule: EventStyleRule): boolean {
+  if (rule.eventMenus && !rule.eventMenus.includes(event.eventMenu || '')) {
+    return false;
+  }
+  if (rule.eventTypes && !rule.eventTypes.includes(event.eventType)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * イベントに適用する表示設定を取得
+ * 一致したルールを先頭から順に重ねて適用する（後のルールが優先）
+ * @param event ガルーンイベント
+ * @param rules 表示設定のルール
+ * @returns 表示設定（一致するルールがない場合は空）
+ */
+export function resolveEventStyle(
+  event: GaroonEvent,
+  rules: EventStyleRule[]
+): EventStyle {
+  const style: EventStyle = {};
+  for (const rule of rules) {
+    if (!matchesRule(event, rule)) {
+      continue;
+    }
+    if (rule.colorId !== undefined) style.colorId = rule.colorId;
+    if (rule.reminders !== undefined) style.reminders = rule.reminders;
+    if (rule.transparency !== undefined)
+      style.transparency = rule.transparency;
+    if (rule.eventType !== undefined) style.eventType = rule.eventType;
+    if (rule.outOfOffice !== undefined)
+      style.outOfOffice = { ...style.outOfOffice, ...rule.outOfOffice };
+  }
+  return style;
+}
+
+/**
+ * 表示設定をGoogleイベントに反映
+ * @param googleEvent Googleイベント
+ * @param style 表示設定
+ */
+export function applyEventStyle(
+  googleEvent: GoogleEvent,
+  style: EventStyle
+): void {
+  if (style.colorId) {
+    googleEvent.colorId = style.colorId;
+  }
+  if (style.reminders) {
+    googleEvent.reminders = {
+      useDefault: false,
+      overrides: style.reminders.map((r) => ({ ...r })),
+    };
+  }
+  if (style.transparency) {
+    googleEvent.transparency = style.transparency;
+  }
+  if (style.eventType && style.eventType !== 'default') {
+    googleEvent.eventType = style.eventType;
+  }
+  if (style.eventType === 'outOfOffice') {
+    googleEvent.outOfOfficeProperties = { ...style.outOfOffice };
+  }
+}
+
+/**
+ * 表示設定のルールを検証
+ * @param rules 表示設定のルール
+ * @throws 色ID・リマインダーなどが不正な場合はエラーをスロー
+ */
+export function validateEventStyles(rules: EventStyleRule[]): void {
+  if (!Array.isArray(rules)) {
+    throw new Error('sync.stylesにはルールの配列を指定してください');
+  }
+
+  rules.forEach((rule, index) => {
+    const label = `sync.stylesのルール #${index + 1}`;
+
+    if (rule.colorId !== undefined && !COLOR_ID_PATTERN.test(rule.colorId)) {
+      throw new Error(
+        `${label}: colorIdには "1"〜"11" を指定してください: ${rule.colorId}`
+      );
+    }
+
+    if (
+      rule.transparency !== undefined &&
+      !TRANSPARENCIES.includes(rule.transparency)
+    ) {
+      throw new Error(
+        `${label}: transparencyには "opaque" または "transparent" を指定してください: ${rule.transparency}`
+      );
+    }
+
+    if (rule.eventType !== undefined && !EVENT_TYPES.includes(rule.eventType)) {
+      throw new Error(
+        `${label}: eventTypeには ${EVENT_TYPES.join(' / ')} を指定してください: ${rule.eventType}`
+      );
+    }
+
+    const autoDeclineMode = rule.outOfOffice?.autoDeclineMode;
+    if (
+      autoDeclineMode !== undefined &&
+      !AUTO_DECLINE_MODES.includes(autoDeclineMode)
+    ) {
+      throw new Error(
+        `${label}: outOfOffice.autoDeclineModeには ${AUTO_DECLINE_MODES.join(' / ')} を指定してください: ${autoDeclineMode}`
+      );
+    }
+    if (rule.outOfOffice?.declineMessage !== undefined) {
+      validateTemplate(rule.outOfOffice.declineMessage);
+    }
+
+    if (rule.reminders !== undefined) {
+      if (
+        !Array.isArray(rule.reminders) ||
+        rule.reminders.length > MAX_REMINDERS
+      ) {
+        throw new Error(
+          `${label}: remindersには${MAX_REMINDERS}件までの配列を指定してください`
+        );
+      }
+      for (const reminder of rule.reminders) {
+        if (
+          !REMINDER_METHODS.includes(reminder.method) ||
+          !Number.isInteger(reminder.minutes) ||
+          reminder.minutes < 0 ||
+          reminder.minutes > MAX_REMINDER_MINUTES
+        ) {
+          throw new Error(
+            `${label}: リマインダーが不正です（methodはemail / popup、minutesは0〜${MAX_REMINDER_MINUTES}）: ${JSON.stringify(
+              reminder
+            )}`
+          );
+        }
+      }
+    }
+  });
+}
@@ -0,0 +1,28 @@
+// ガルーンの予定で予約した施設
+
+import { GaroonEvent, GaroonFacility } from '../types/garoon';
+
+/**
+ * 予定で予約した施設を取得
+ * 施設は予定のfacilitiesのほか、種類がFACILITYの参加者として返される場合もあるため両方をまとめる
+ * @param garoonEvent ガルーンイベント
+ * @returns 施設の配列（重複排除済み）
+ */
+export function getEventFacilities(garoonEvent: GaroonEvent): GaroonFacility[] {
+  const facilities = new Map<string, GaroonFacility>();
+
+  for (const facility of garoonEvent.facilities || []) {
+    facilities.set(facility.id, facility);
+  }
+  for (const attendee of garoonEvent.attendees) {
+    if (attendee.type === 'FACILITY' && !facilities.has(attendee.id)) {
+      facilities.set(attendee.id, {
+        id: attendee.id,
+        name: attendee.name,
+        code: attendee.code,
+      });
+    }
+  }
+
+  return Array.from(facilities.values());
+}
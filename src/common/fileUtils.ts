@@ -0,0 +1,48 @@
+// ファイル操作ユーティリティ
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * ファイルをアトミックに書き込む
+ * 同じディレクトリの一時ファイルに書き込んでから置き換えるため、
+ * 書き込み中に異常終了しても元のファイルが壊れない
+ * @param filePath 書き込み先のパス
+ * @param content 書き込む内容
+ * @param mode ファイルのパーミッション（省略時は既存ファイルのパーミッションを維持）
+ */
+export function writeFileAtomic(
+  filePath: string,
+  content: string,
+  mode?: number
+): void {
+  const dir = path.dirname(filePath);
+  const tempPath = path.join(
+    dir,
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+
+  let fileMode = mode;
+  if (fileMode === undefined && fs.existsSync(filePath)) {
+    fileMode = fs.statSync(filePath).mode & 0o777;
+  }
+
+  const fd = fs.openSync(tempPath, 'w', fileMode ?? 0o644);
+  try {
+    fs.writeFileSync(fd, content, 'utf8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  try {
+    // umaskの影響を受けないよう、作成後にパーミッションを設定する
+    if (fileMode !== undefined) {
+      fs.chmodSync(tempPath, fileMode);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -4,15 +4,29 @@ import axios, { AxiosInstance } from 'axios';
 import {
   GaroonAuthConfig,
   GaroonEvent,
+  GaroonEventUpdate,
+  GaroonFacilitiesResponse,
+  GaroonFacility,
   GaroonScheduleResponse,
+  GaroonScheduleResult,
   GaroonTarget,
+  GaroonUser,
+  GaroonUsersResponse,
 } from '../types/garoon';
+import {
+  DEFAULT_TIME_ZONE,
+  endOfDay,
+  formatDateInTimeZone,
+  startOfDay,
+} from './dateTime';
 import { withRetry } from './retry';
 
 export class GaroonClient {
   private client: AxiosInstance;
   private baseUrl: string;
   private authConfig: GaroonAuthConfig;
+  // 取得期間の日付を解釈するタイムゾーン
+  private timeZone: string;
 
   /**
    * URLをマスキングして安全に表示
@@ -34,8 +48,12 @@ export class GaroonClient {
     }
   }
 
-  constructor(config: GaroonAuthConfig) {
+  constructor(
+    config: GaroonAuthConfig,
+    timeZone: string = DEFAULT_TIME_ZONE
+  ) {
     this.authConfig = config;
+    this.timeZone = timeZone;
 
     // ベースURLのバリデーション
     if (!config.baseUrl) {
@@ -117,6 +135,23 @@ export class GaroonClient {
     startDate: string,
     endDate: string
   ): Promise<GaroonEvent[]> {
+    const result = await this.getScheduleWithStatus(startDate, endDate);
+    return result.events;
+  }
+
+  /**
+   * 指定期間のスケジュールをターゲットごとの取得結果と合わせて取得
+   * 一部のターゲットで取得に失敗した場合もエラーにせず、failedTargetsに記録する
+   * @param startDate 開始日 (YYYY-MM-DD)
+   * @param endDate 終了日 (YYYY-MM-DD)
+   * @param targets 取得対象のターゲット（省略時は設定のターゲット）
+   * @returns ガルーンイベント配列と取得に失敗したターゲット
+   */
+  async getScheduleWithStatus(
+    startDate: string,
+    endDate: string,
+    targets?: GaroonTarget[]
+  ): Promise<GaroonScheduleResult> {
     // 日付のフォーマットを検証
     if (
       !/^\d{4}-\d{2}-\d{2}$/.test(startDate) ||
@@ -125,9 +160,18 @@ export class GaroonClient {
       throw new Error('日付フォーマットが不正です (YYYY-MM-DD)');
     }
 
+    // ターゲットが指定されている場合（同期先ルートごとの取得）
+    if (targets && targets.length > 0) {
+      return this.getScheduleFromMultipleTargets(startDate, endDate, targets);
+    }
+
     // 複数ターゲットが設定されている場合
     if (this.authConfig.targets && this.authConfig.targets.length > 0) {
-      return this.getScheduleFromMultipleTargets(startDate, endDate);
+      return this.getScheduleFromMultipleTargets(
+        startDate,
+        endDate,
+        this.authConfig.targets
+      );
     }
 
     // 単一ターゲット（旧形式）
@@ -135,20 +179,22 @@ export class GaroonClient {
       type: this.authConfig.targetType || 'user',
       id: this.authConfig.targetId || '2',
     };
-    return this.getScheduleFromTarget(startDate, endDate, target);
+    const events = await this.getScheduleFromTarget(startDate, endDate, target);
+    return { events, failedTargets: [] };
   }
 
   /**
    * 複数ターゲットからスケジュールを取得してマージ
    * @param startDate 開始日 (YYYY-MM-DD)
    * @param endDate 終了日 (YYYY-MM-DD)
-   * @returns マージされたガルーンイベント配列（重複排除済み）
+   * @param targets 取得対象のターゲット
+   * @returns マージされたガルーンイベント配列（重複排除済み）と取得に失敗したターゲット
    */
   private async getScheduleFromMultipleTargets(
     startDate: string,
-    endDate: string
-  ): Promise<GaroonEvent[]> {
-    const targets = this.authConfig.targets!;
+    endDate: string,
+    targets: GaroonTarget[]
+  ): Promise<GaroonScheduleResult> {
     console.log(
       `${targets.length}件のターゲットからイベントを取得します: ${targets.map((t) => `${t.type}:${t.id}`).join(', ')}`
     );
@@ -162,24 +208,34 @@ export class GaroonClient {
 
     // イベントをマージして重複排除
     const eventMap = new Map<string, GaroonEvent>();
+    const failedTargets: GaroonScheduleResult['failedTargets'] = [];
     results.forEach((result, index) => {
       if (result.status === 'fulfilled') {
         console.log(
           `${targets[index].type}:${targets[index].id} から ${result.value.length} 件のイベントを取得`
         );
         for (const event of result.value) {
-          eventMap.set(event.id, event);
+          // 繰り返し予定は各回が同じIDを持つため、回ごとに区別して重複排除する
+          const key = event.repeatId ? `${event.id}:${event.repeatId}` : event.id;
+          eventMap.set(key, event);
         }
       } else {
         console.error(
           `${targets[index].type}:${targets[index].id} からのイベント取得に失敗: ${result.reason}`
         );
+        failedTargets.push({
+          target: targets[index],
+          error:
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+        });
       }
     });
 
     const allEvents = Array.from(eventMap.values());
     console.log(`合計 ${allEvents.length} 件のユニークなイベント`);
-    return allEvents;
+    return { events: allEvents, failedTargets };
   }
 
   /**
@@ -194,16 +250,21 @@ export class GaroonClient {
     endDate: string,
     target: GaroonTarget
   ): Promise<GaroonEvent[]> {
+    // 施設グループは所属する各施設の予定をまとめて取得する
+    if (target.type === 'facilityGroup') {
+      return this.getScheduleFromFacilityGroup(startDate, endDate, target.id);
+    }
+
     try {
       const endpoint = '/api/v1/schedule/events';
 
       const params = {
-        rangeStart: `${startDate}T00:00:00+09:00`,
-        rangeEnd: `${endDate}T23:59:59+09:00`,
+        rangeStart: startOfDay(startDate, this.timeZone),
+        rangeEnd: endOfDay(endDate, this.timeZone),
         target: target.id,
         targetType: target.type,
         fields:
-          'id,eventMenu,subject,notes,start,end,attendees,visibilityType,eventType,updatedAt,createdAt,location',
+          'id,eventMenu,subject,notes,start,end,attendees,facilities,visibilityType,eventType,updatedAt,createdAt,location,repeatId,repeatInfo,temporaryEventCandidates',
       };
 
       let allEvents: GaroonEvent[] = [];
@@ -259,6 +320,80 @@ export class GaroonClient {
     }
   }
 
+  /**
+   * 施設グループに属する各施設のスケジュールを取得
+   * 複数の施設を予約した予定は施設ごとに返されるため重複排除する
+   * @param startDate 開始日 (YYYY-MM-DD)
+   * @param endDate 終了日 (YYYY-MM-DD)
+   * @param facilityGroupId 施設グループID
+   * @returns ガルーンイベント配列
+   */
+  private async getScheduleFromFacilityGroup(
+    startDate: string,
+    endDate: string,
+    facilityGroupId: string
+  ): Promise<GaroonEvent[]> {
+    const facilities = await this.listFacilities(facilityGroupId);
+    const eventMap = new Map<string, GaroonEvent>();
+
+    for (const facility of facilities) {
+      const events = await this.getScheduleFromTarget(startDate, endDate, {
+        type: 'facility',
+        id: facility.id,
+      });
+      for (const event of events) {
+        const key = event.repeatId ? `${event.id}:${event.repeatId}` : event.id;
+        eventMap.set(key, event);
+      }
+    }
+
+    return Array.from(eventMap.values());
+  }
+
+  /**
+   * 施設グループに属する施設の一覧を取得
+   * @param facilityGroupId 施設グループID
+   * @returns 施設の配列
+   */
+  async listFacilities(facilityGroupId: string): Promise<GaroonFacility[]> {
+    const endpoint = `/api/v1/schedule/facilityGroups/${facilityGroupId}/facilities`;
+    const limit = 1000;
+    const facilities: GaroonFacility[] = [];
+
+    try {
+      let hasNext = true;
+      while (hasNext) {
+        const response = await withRetry(() =>
+          this.client.get<GaroonFacilitiesResponse>(endpoint, {
+            params: { limit, offset: facilities.length },
+          })
+        );
+        facilities.push(...response.data.facilities);
+        hasNext =
+          response.data.hasNext && response.data.facilities.length > 0;
+      }
+      return facilities;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        throw new Error(
+          `施設一覧の取得エラー (facilityGroup:${facilityGroupId}): ${
+            error.response.status
+          } ${JSON.stringify(error.response.data)}`
+        );
+      }
+
+      if (error instanceof Error) {
+        throw new Error(
+          `施設一覧の取得エラー (facilityGroup:${facilityGroupId}): ${error.message}`
+        );
+      }
+
+      throw new Error(
+        `不明な施設一覧の取得エラー (facilityGroup:${facilityGroupId})`
+      );
+    }
+  }
+
   /**
    * 単一のイベントを取得
    * @param eventId イベントID
@@ -284,6 +419,102 @@ export class GaroonClient {
     }
   }
 
+  /**
+   * 単一のイベントを取得（削除済みの確認用）
+   * @param eventId イベントID
+   * @returns イベント情報（存在しない場合はnull）
+   */
+  async findEvent(eventId: string): Promise<GaroonEvent | null> {
+    try {
+      const endpoint = `/api/v1/schedule/events/${eventId}`;
+      const response = await withRetry(() =>
+        this.client.get<GaroonEvent>(endpoint)
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+
+      if (error instanceof Error) {
+        throw new Error(`イベント取得エラー: ${error.message}`);
+      }
+
+      throw new Error('不明なイベント取得エラー');
+    }
+  }
+
+  /**
+   * イベントを更新（指定した項目のみ）
+   * @param eventId イベントID
+   * @param update 更新内容
+   * @returns 更新後のイベント情報
+   */
+  async updateEvent(
+    eventId: string,
+    update: GaroonEventUpdate
+  ): Promise<GaroonEvent> {
+    try {
+      const endpoint = `/api/v1/schedule/events/${eventId}`;
+      const response = await withRetry(() =>
+        this.client.patch<GaroonEvent>(endpoint, update)
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        throw new Error(
+          `イベント更新エラー (${eventId}): ${error.response.status} ${JSON.stringify(
+            error.response.data
+          )}`
+        );
+      }
+
+      if (error instanceof Error) {
+        throw new Error(`イベント更新エラー (${eventId}): ${error.message}`);
+      }
+
+      throw new Error(`不明なイベント更新エラー (${eventId})`);
+    }
+  }
+
+  /**
+   * ユーザー一覧を取得（参加者のメールアドレス解決用）
+   * @returns ユーザーの配列
+   */
+  async listUsers(): Promise<GaroonUser[]> {
+    const endpoint = '/api/v1/base/users';
+    const limit = 1000;
+    const users: GaroonUser[] = [];
+
+    try {
+      let hasNext = true;
+      while (hasNext) {
+        const response = await withRetry(() =>
+          this.client.get<GaroonUsersResponse>(endpoint, {
+            params: { limit, offset: users.length },
+          })
+        );
+        users.push(...response.data.users);
+        hasNext = response.data.hasNext && response.data.users.length > 0;
+      }
+      return users;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        throw new Error(
+          `ユーザー一覧の取得エラー: ${error.response.status} ${JSON.stringify(
+            error.response.data
+          )}`
+        );
+      }
+
+      if (error instanceof Error) {
+        throw new Error(`ユーザー一覧の取得エラー: ${error.message}`);
+      }
+
+      throw new Error('不明なユーザー一覧の取得エラー');
+    }
+  }
+
   /**
    * Garoon APIの接続テスト
    * @returns 接続が成功したかどうか
@@ -305,13 +536,13 @@ export class GaroonClient {
       console.log(`デバッグ: 認証方式: ${authMethod}`);
 
       // テスト用のシンプルなパラメータ
-      const today = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+      const today = formatDateInTimeZone(new Date(), this.timeZone);
       const targetId = this.authConfig.targetId || '2';
       const targetType = this.authConfig.targetType || 'user';
 
       const params = {
-        rangeStart: `${today}T00:00:00+09:00`,
-        rangeEnd: `${today}T23:59:59+09:00`,
+        rangeStart: startOfDay(today, this.timeZone),
+        rangeEnd: endOfDay(today, this.timeZone),
         target: targetId,
         targetType: targetType,
         fields: 'id,eventMenu,subject,notes,start,end',
@@ -0,0 +1,288 @@
+// 同期データの保存先（JSONファイル）
+
+import fs from 'fs';
+import { writeFileAtomic } from './fileUtils';
+import {
+  applyMigrations,
+  assertSupportedVersion,
+  backupBeforeMigration,
+  getLatestVersion,
+  Migration,
+} from './migrations';
+import {
+  DEFAULT_ROUTE,
+  PendingDeletion,
+  SyncedEventInfo,
+  SyncLogEntry,
+  SyncStore,
+} from './syncStore';
+
+// JSONファイルの内容
+export interface SyncData {
+  // スキーマバージョン（バージョン導入前のファイルは0とみなす）
+  version?: number;
+  events: Record<string, SyncedEventInfo>;
+  logs: SyncLogEntry[];
+  lastLogId: number;
+  lastFetchCount?: number;
+  // ルートごとの前回の取得件数（既定のルートはlastFetchCountを使用）
+  routeFetchCounts?: Record<string, number>;
+  // ルートごとのGoogle Calendarの同期トークン（変更されたイベントの取得用）
+  googleSyncTokens?: Record<string, string>;
+  pendingDeletions?: PendingDeletion[];
+}
+
+// JSONファイルの移行処理（バージョン順）
+const JSON_MIGRATIONS: Migration<SyncData>[] = [
+  {
+    version: 1,
+    description: 'スキーマバージョンを導入し、必須項目の既定値を補完',
+    migrate: (data) => {
+      data.events = data.events || {};
+      data.logs = data.logs || [];
+      data.lastLogId =
+        data.lastLogId ?? data.logs.reduce((max, l) => Math.max(max, l.id), 0);
+    },
+  },
+];
+
+export const JSON_SCHEMA_VERSION = getLatestVersion(JSON_MIGRATIONS);
+
+export class JsonSyncStore implements SyncStore {
+  private dataPath: string;
+  private data: SyncData;
+  // trueの場合はファイルを変更しない（計画モード用）
+  private readOnly: boolean;
+  // トランザクション中は保存を遅らせ、確定時にまとめて書き込む
+  private inTransaction = false;
+  private dirty = false;
+
+  /**
+   * @param dataPath JSONファイルのパス
+   * @param readOnly trueの場合は読み込みのみ行い、ファイルを変更しない（計画モード用）
+   */
+  constructor(dataPath: string, readOnly = false) {
+    this.dataPath = dataPath;
+    this.readOnly = readOnly;
+    this.data = this.loadData();
+  }
+
+  private loadData(): SyncData {
+    if (fs.existsSync(this.dataPath)) {
+      let data: SyncData | null = null;
+      try {
+        const content = fs.readFileSync(this.dataPath, 'utf8');
+        data = JSON.parse(content);
+      } catch {
+        if (this.readOnly) {
+          console.warn(
+            `データファイルの読み込みに失敗しました (${this.dataPath})。同期情報がないものとして続行します`
+          );
+          return this.createEmptyData();
+        }
+        // 壊れたファイルは上書きされないよう退避する（同期情報はrebuild-dbで再構築できる）
+        const backupPath = `${this.dataPath}.corrupt-${Date.now()}`;
+        fs.renameSync(this.dataPath, backupPath);
+        console.warn(
+          `データファイルの読み込みに失敗しました。${backupPath} に退避して新規作成します。` +
+            '既存のGoogleイベントが重複して作成されないよう、同期の前に npm run rebuild-db で同期情報を再構築してください。'
+        );
+      }
+      if (data) {
+        return this.migrateData(data);
+      }
+    }
+    return this.createEmptyData();
+  }
+
+  /**
+   * 同期情報のない初期状態のデータを作成
+   * @returns 空のデータ
+   */
+  private createEmptyData(): SyncData {
+    return {
+      version: JSON_SCHEMA_VERSION,
+      events: {},
+      logs: [],
+      lastLogId: 0,
+    };
+  }
+
+  /**
+   * 読み込んだデータを最新のスキーマバージョンに移行
+   * 移行前のファイルはバックアップを残す（読み込み専用の場合はメモリ上でのみ移行する）
+   * @param data 読み込んだデータ
+   * @returns 移行後のデータ
+   * @throws 新しいバージョンで作成されたファイルの場合はエラーをスロー
+   */
+  private migrateData(data: SyncData): SyncData {
+    const version = data.version ?? 0;
+    assertSupportedVersion(version, JSON_MIGRATIONS, this.dataPath);
+    if (version === JSON_SCHEMA_VERSION) {
+      return data;
+    }
+
+    if (this.readOnly) {
+      data.version = applyMigrations(data, version, JSON_MIGRATIONS);
+      return data;
+    }
+
+    const backupPath = backupBeforeMigration(this.dataPath, version);
+    data.version = applyMigrations(data, version, JSON_MIGRATIONS);
+    writeFileAtomic(this.dataPath, JSON.stringify(data, null, 2));
+    console.log(
+      `同期データをスキーマバージョン${version}から${data.version}に移行しました（移行前のファイル: ${backupPath}）`
+    );
+    return data;
+  }
+
+  private saveData(): void {
+    if (this.readOnly) {
+      return;
+    }
+    if (this.inTransaction) {
+      this.dirty = true;
+      return;
+    }
+    // 書き込み中に異常終了してもファイルが壊れないよう、一時ファイル経由で置き換える
+    writeFileAtomic(this.dataPath, JSON.stringify(this.data, null, 2));
+  }
+
+  /**
+   * 同期情報の保存キーを取得
+   * 既定のルートはルート導入前と同じくガルーンイベントIDをそのままキーにする
+   * @param garoonEventId ガルーンイベントID
+   * @param route ルート名
+   * @returns 保存キー
+   */
+  private eventKey(garoonEventId: string, route: string): string {
+    return route === DEFAULT_ROUTE ? garoonEventId : `${route}:${garoonEventId}`;
+  }
+
+  /**
+   * 読み込んだデータをすべて取得（SQLiteへの移行用）
+   * @returns JSONファイルの内容
+   */
+  exportData(): SyncData {
+    return this.data;
+  }
+
+  getEvent(garoonEventId: string, route: string): SyncedEventInfo | null {
+    const event = this.data.events[this.eventKey(garoonEventId, route)];
+    return event ? { ...event } : null;
+  }
+
+  putEvent(event: SyncedEventInfo, route: string): void {
+    this.data.events[this.eventKey(event.garoonEventId, route)] = { ...event };
+    this.saveData();
+  }
+
+  deleteEvent(garoonEventId: string, route: string): void {
+    delete this.data.events[this.eventKey(garoonEventId, route)];
+    this.saveData();
+  }
+
+  deleteEventByGoogleEventId(googleEventId: string): void {
+    for (const [key, event] of Object.entries(this.data.events)) {
+      if (event.googleEventId === googleEventId) {
+        delete this.data.events[key];
+        break;
+      }
+    }
+    this.saveData();
+  }
+
+  listEvents(route?: string): SyncedEventInfo[] {
+    const events = Object.values(this.data.events);
+    if (route === undefined) {
+      return events;
+    }
+    return events.filter((e) => (e.route || DEFAULT_ROUTE) === route);
+  }
+
+  deleteEventsSyncedBefore(cutoff: string): void {
+    for (const [key, event] of Object.entries(this.data.events)) {
+      if (event.lastSynced < cutoff) {
+        delete this.data.events[key];
+      }
+    }
+    this.saveData();
+  }
+
+  getLastFetchCount(route: string): number | undefined {
+    if (route === DEFAULT_ROUTE) {
+      return this.data.lastFetchCount;
+    }
+    return this.data.routeFetchCounts?.[route];
+  }
+
+  setLastFetchCount(count: number, route: string): void {
+    if (route === DEFAULT_ROUTE) {
+      this.data.lastFetchCount = count;
+    } else {
+      this.data.routeFetchCounts = {
+        ...this.data.routeFetchCounts,
+        [route]: count,
+      };
+    }
+    this.saveData();
+  }
+
+  getGoogleSyncToken(route: string): string | undefined {
+    return this.data.googleSyncTokens?.[route];
+  }
+
+  setGoogleSyncToken(token: string, route: string): void {
+    this.data.googleSyncTokens = {
+      ...this.data.googleSyncTokens,
+      [route]: token,
+    };
+    this.saveData();
+  }
+
+  getPendingDeletions(route: string): PendingDeletion[] {
+    return (this.data.pendingDeletions || []).filter(
+      (d) => (d.route || DEFAULT_ROUTE) === route
+    );
+  }
+
+  setPendingDeletions(deletions: PendingDeletion[], route: string): void {
+    const others = (this.data.pendingDeletions || []).filter(
+      (d) => (d.route || DEFAULT_ROUTE) !== route
+    );
+    this.data.pendingDeletions = [...others, ...deletions];
+    this.saveData();
+  }
+
+  appendLog(entry: Omit<SyncLogEntry, 'id'>): void {
+    this.data.lastLogId++;
+    this.data.logs.push({ id: this.data.lastLogId, ...entry });
+
+    // ログが1000件を超えたら古いものを削除
+    if (this.data.logs.length > 1000) {
+      this.data.logs = this.data.logs.slice(-500);
+    }
+
+    this.saveData();
+  }
+
+  getRecentLogs(limit: number): SyncLogEntry[] {
+    return this.data.logs.slice(-limit).reverse();
+  }
+
+  beginTransaction(): void {
+    this.inTransaction = true;
+  }
+
+  commitTransaction(): void {
+    this.inTransaction = false;
+    if (this.dirty) {
+      this.dirty = false;
+      this.saveData();
+    }
+  }
+
+  close(): void {
+    this.commitTransaction();
+  }
+}
@@ -0,0 +1,78 @@
+// 同期データのスキーマバージョンと移行処理
+
+import fs from 'fs';
+
+// 同期データの移行処理
+export interface Migration<T> {
+  // 移行後のバージョン（1から順に登録する）
+  version: number;
+  description: string;
+  migrate: (target: T) => void;
+}
+
+/**
+ * 移行処理の一覧から最新のスキーマバージョンを取得
+ * @param migrations 移行処理の一覧
+ * @returns 最新のスキーマバージョン
+ */
+export function getLatestVersion<T>(migrations: Migration<T>[]): number {
+  return migrations.reduce((latest, m) => Math.max(latest, m.version), 0);
+}
+
+/**
+ * 同期データのスキーマバージョンが使用できるか確認
+ * @param version 同期データのスキーマバージョン
+ * @param migrations 移行処理の一覧
+ * @param filePath 同期データのパス（エラー表示用）
+ * @throws このバージョンより新しいバージョンで作成された同期データの場合はエラーをスロー
+ */
+export function assertSupportedVersion<T>(
+  version: number,
+  migrations: Migration<T>[],
+  filePath: string
+): void {
+  const latest = getLatestVersion(migrations);
+  if (version > latest) {
+    throw new Error(
+      `同期データ (${filePath}) は新しいバージョンのアプリケーションで作成されています（スキーマバージョン: ${version}、対応バージョン: ${latest}）。アプリケーションを更新してください`
+    );
+  }
+}
+
+/**
+ * 現在のバージョンより新しい移行処理を順に適用
+ * @param target 移行する同期データ
+ * @param version 同期データのスキーマバージョン
+ * @param migrations 移行処理の一覧
+ * @returns 移行後のスキーマバージョン
+ */
+export function applyMigrations<T>(
+  target: T,
+  version: number,
+  migrations: Migration<T>[]
+): number {
+  const pending = migrations
+    .filter((m) => m.version > version)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    migration.migrate(target);
+    version = migration.version;
+  }
+  return version;
+}
+
+/**
+ * 移行前の同期データをバックアップ
+ * @param filePath 同期データのパス
+ * @param version 移行前のスキーマバージョン
+ * @returns バックアップのパス
+ */
+export function backupBeforeMigration(
+  filePath: string,
+  version: number
+): string {
+  const backupPath = `${filePath}.v${version}-${Date.now()}.bak`;
+  fs.copyFileSync(filePath, backupPath);
+  return backupPath;
+}
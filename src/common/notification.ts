@@ -150,4 +150,68 @@ ${errors > 0 ? `エラー: ${errors}件` : ''}
 
     return this.sendTeamsNotification(title, message, color);
   }
+
+  /**
+   * 保留された削除の通知を送信
+   * @param reasons 削除を保留した理由
+   * @param deletions 保留された削除（ガルーンイベントIDとGoogleイベントID）
+   * @returns 送信成功したかどうか
+   */
+  async sendDeletionBlockedNotification(
+    reasons: string[],
+    deletions: { garoonEventId: string; googleEventId: string }[]
+  ): Promise<boolean> {
+    const MAX_LISTED = 20;
+    const listed = deletions
+      .slice(0, MAX_LISTED)
+      .map((d) => `- Garoon=${d.garoonEventId}, Google=${d.googleEventId}`)
+      .join('\n');
+    const more =
+      deletions.length > MAX_LISTED
+        ? `\n...他${deletions.length - MAX_LISTED}件`
+        : '';
+
+    const message = `
+${deletions.length}件の削除を保留しました。
+理由:
+${reasons.map((r) => `- ${r}`).join('\n')}
+
+対象:
+${listed}${more}
+
+内容を確認のうえ、削除してよい場合は --approve-deletions を指定して同期を再実行してください。
+    `.trim();
+
+    return this.sendTeamsNotification(
+      'ガルーン同期: 削除を保留しました',
+      message,
+      'warning'
+    );
+  }
+
+  /**
+   * 編集の競合の通知を送信
+   * @param conflicts 競合したイベント
+   * @returns 送信成功したかどうか
+   */
+  async sendConflictNotification(
+    conflicts: { garoonEventId: string; googleEventId: string; summary: string }[]
+  ): Promise<boolean> {
+    const message = `
+ガルーンとGoogle Calendarの両方で編集されたイベントが${conflicts.length}件あります。
+どちらの内容も変更していません。
+
+${conflicts
+  .map((c) => `- ${c.summary} (Garoon=${c.garoonEventId}, Google=${c.googleEventId})`)
+  .join('\n')}
+
+残す内容に合わせてもう一方を編集するか、Google側の編集を元に戻してください。
+    `.trim();
+
+    return this.sendTeamsNotification(
+      'ガルーン同期: 編集の競合を確認してください',
+      message,
+      'warning'
+    );
+  }
 }
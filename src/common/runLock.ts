@@ -0,0 +1,250 @@
+// 同期処理の排他制御（ロックファイル）
+
+import fs from 'fs';
+import os from 'os';
+import { writeFileAtomic } from './fileUtils';
+
+// ロックファイルの内容
+export interface RunLockInfo {
+  pid: number;
+  hostname: string;
+  startedAt: string;
+  // 実行中のプロセスが定期的に更新する日時
+  heartbeatAt: string;
+}
+
+export interface RunLockOptions {
+  // ハートビートを更新する間隔（ミリ秒）
+  heartbeatMs?: number;
+  // ハートビートがこの時間更新されていないロックは放棄されたとみなす（ミリ秒）
+  staleMs?: number;
+}
+
+const DEFAULT_HEARTBEAT_MS = 30 * 1000;
+const DEFAULT_STALE_MS = 5 * 60 * 1000;
+
+/**
+ * プロセスが実行中か確認
+ * @param pid プロセスID
+ * @returns 実行中の場合true
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERMは他のユーザーのプロセスとして実行中
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * ロックが放棄されたものか判定
+ * 同じホストのプロセスは終了していれば、他のホストのプロセスはハートビートが途絶えていれば放棄とみなす
+ * @param info ロックファイルの内容
+ * @param staleMs 放棄とみなすまでの時間（ミリ秒）
+ * @param now 現在日時（エポックミリ秒）
+ * @returns 放棄されたロックの場合true
+ */
+export function isStaleLock(
+  info: RunLockInfo,
+  staleMs: number,
+  now: number = Date.now()
+): boolean {
+  if (now - Date.parse(info.heartbeatAt) > staleMs) {
+    return true;
+  }
+  return info.hostname === os.hostname() && !isProcessAlive(info.pid);
+}
+
+/**
+ * ファイルを排他的に作成
+ * @param filePath ファイルのパス
+ * @param content ファイルの内容
+ * @returns 作成できた場合true、既に存在する場合false
+ */
+function createFileExclusive(filePath: string, content: string): boolean {
+  try {
+    fs.writeFileSync(filePath, content, { flag: 'wx' });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export class RunLock {
+  private lockPath: string;
+  private heartbeatMs: number;
+  private staleMs: number;
+  private info: RunLockInfo | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(lockPath: string, options: RunLockOptions = {}) {
+    this.lockPath = lockPath;
+    this.heartbeatMs = options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+    this.staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  }
+
+  /**
+   * ロックの取得を試みる
+   * 放棄されたロックは削除して取得し直す
+   * @returns 取得できた場合true、他のプロセスが実行中の場合false
+   */
+  tryAcquire(): boolean {
+    if (this.info) {
+      return true;
+    }
+
+    const now = new Date().toISOString();
+    const info: RunLockInfo = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      startedAt: now,
+      heartbeatAt: now,
+    };
+
+    if (!this.createLockFile(info) && !this.takeOverStaleLock(info)) {
+      return false;
+    }
+
+    this.info = info;
+    this.heartbeat = setInterval(() => this.touch(), this.heartbeatMs);
+    // ハートビートのためにプロセスの終了を妨げない
+    this.heartbeat.unref();
+    return true;
+  }
+
+  /**
+   * 放棄されたロックを引き継ぐ
+   * 複数のプロセスが同じロックを放棄と判定しても1つだけが引き継ぐよう、引き継ぎ用のファイルを排他的に作成し、
+   * 作成後に保持しているプロセスを確認し直してから削除する
+   * @param info ロックファイルの内容
+   * @returns 引き継いだ場合true、ロックが放棄されていない・他のプロセスが引き継ぎ中の場合false
+   */
+  private takeOverStaleLock(info: RunLockInfo): boolean {
+    if (!this.isHeldByStaleProcess()) {
+      return false;
+    }
+
+    const takeoverPath = `${this.lockPath}.takeover`;
+    if (!createFileExclusive(takeoverPath, String(process.pid))) {
+      // 引き継ぎ中に異常終了して残ったファイルは削除し、次回の実行で引き継ぐ
+      if (this.isOlderThanStale(takeoverPath)) {
+        fs.rmSync(takeoverPath, { force: true });
+      }
+      return false;
+    }
+
+    try {
+      // 引き継ぎ用のファイルを作成するまでに、他のプロセスが引き継いでいないか確認し直す
+      const holder = this.readHolder();
+      if (!this.isHeldByStaleProcess(holder)) {
+        return false;
+      }
+
+      console.warn(
+        `放棄されたロックファイルを削除します: ${this.lockPath}${
+          holder ? ` (PID: ${holder.pid}, ホスト: ${holder.hostname})` : ''
+        }`
+      );
+      fs.rmSync(this.lockPath, { force: true });
+      return this.createLockFile(info);
+    } finally {
+      fs.rmSync(takeoverPath, { force: true });
+    }
+  }
+
+  /**
+   * ロックを解放（自分が取得したロックのみ削除する）
+   */
+  release(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    if (!this.info) {
+      return;
+    }
+
+    const holder = this.readHolder();
+    if (
+      holder?.pid === this.info.pid &&
+      holder.startedAt === this.info.startedAt
+    ) {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+    this.info = null;
+  }
+
+  /**
+   * ロックを保持しているプロセスの情報を取得
+   * @returns ロックファイルの内容（存在しない・読み込めない場合はnull）
+   */
+  readHolder(): RunLockInfo | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.lockPath, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * ロックファイルが放棄されたものか判定
+   * 読み込めないロックファイルは、作成直後で内容の書き込み中のものを削除しないよう、更新日時で判定する
+   * @param holder ロックファイルの内容（省略時は読み込む）
+   * @returns 放棄されたロックの場合true
+   */
+  private isHeldByStaleProcess(
+    holder: RunLockInfo | null = this.readHolder()
+  ): boolean {
+    return holder
+      ? isStaleLock(holder, this.staleMs)
+      : this.isOlderThanStale(this.lockPath);
+  }
+
+  /**
+   * ファイルが放棄されたとみなす時間より前に更新されたものか判定
+   * @param filePath ファイルのパス
+   * @returns 放棄されたとみなす場合true（既に削除されている場合も含む）
+   */
+  private isOlderThanStale(filePath: string): boolean {
+    try {
+      const { mtimeMs } = fs.statSync(filePath);
+      return Date.now() - mtimeMs > this.staleMs;
+    } catch {
+      // 既に削除されている
+      return true;
+    }
+  }
+
+  /**
+   * ロックファイルを排他的に作成
+   * @param info ロックファイルの内容
+   * @returns 作成できた場合true、既に存在する場合false
+   */
+  private createLockFile(info: RunLockInfo): boolean {
+    return createFileExclusive(this.lockPath, JSON.stringify(info, null, 2));
+  }
+
+  /**
+   * ハートビートを更新
+   */
+  private touch(): void {
+    if (!this.info) {
+      return;
+    }
+    this.info.heartbeatAt = new Date().toISOString();
+    try {
+      writeFileAtomic(this.lockPath, JSON.stringify(this.info, null, 2));
+    } catch (error) {
+      console.warn(
+        `ロックファイルを更新できませんでした: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -0,0 +1,439 @@
+// 同期データの保存先（SQLite）
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { SyncData } from './jsonSyncStore';
+import {
+  applyMigrations,
+  assertSupportedVersion,
+  backupBeforeMigration,
+  getLatestVersion,
+  Migration,
+} from './migrations';
+import {
+  DEFAULT_ROUTE,
+  PendingDeletion,
+  SyncedEventInfo,
+  SyncLogEntry,
+  SyncStore,
+} from './syncStore';
+
+// 保持する同期ログの最大件数
+const MAX_LOGS = 1000;
+
+const INITIAL_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS synced_events (
+    route TEXT NOT NULL,
+    garoon_event_id TEXT NOT NULL,
+    google_event_id TEXT NOT NULL,
+    last_synced TEXT NOT NULL,
+    garoon_updated_at TEXT NOT NULL,
+    event_start TEXT,
+    event_end TEXT,
+    instances TEXT,
+    conflict_detected_at TEXT,
+    PRIMARY KEY (route, garoon_event_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_synced_events_google_event_id
+    ON synced_events (google_event_id);
+  CREATE INDEX IF NOT EXISTS idx_synced_events_last_synced
+    ON synced_events (last_synced);
+
+  CREATE TABLE IF NOT EXISTS sync_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    action TEXT NOT NULL,
+    garoon_event_id TEXT,
+    google_event_id TEXT,
+    details TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+// データベースの移行処理（バージョン順、バージョンはuser_versionに記録する）
+const SQLITE_MIGRATIONS: Migration<Database.Database>[] = [
+  {
+    version: 1,
+    description: '同期情報・同期ログ・状態のテーブルを作成',
+    migrate: (db) => db.exec(INITIAL_SCHEMA),
+  },
+  {
+    version: 2,
+    description: 'Googleイベントの内容のハッシュを追加',
+    migrate: (db) =>
+      db.exec('ALTER TABLE synced_events ADD COLUMN payload_hash TEXT'),
+  },
+  {
+    version: 3,
+    description: '仮予定の候補日時のGoogleイベントIDを追加',
+    migrate: (db) =>
+      db.exec('ALTER TABLE synced_events ADD COLUMN candidate_event_ids TEXT'),
+  },
+  {
+    version: 4,
+    description: '繰り返しイベントかどうかを追加',
+    migrate: (db) =>
+      db.exec('ALTER TABLE synced_events ADD COLUMN recurring INTEGER'),
+  },
+];
+
+export const SQLITE_SCHEMA_VERSION = getLatestVersion(SQLITE_MIGRATIONS);
+
+// synced_eventsテーブルの行
+interface SyncedEventRow {
+  route: string;
+  garoon_event_id: string;
+  google_event_id: string;
+  last_synced: string;
+  garoon_updated_at: string;
+  event_start: string | null;
+  event_end: string | null;
+  instances: string | null;
+  conflict_detected_at: string | null;
+  payload_hash: string | null;
+  candidate_event_ids: string | null;
+  recurring: number | null;
+}
+
+/**
+ * synced_eventsテーブルの行を同期情報に変換
+ * @param row テーブルの行
+ * @returns 同期情報
+ */
+function toSyncedEventInfo(row: SyncedEventRow): SyncedEventInfo {
+  const event: SyncedEventInfo = {
+    garoonEventId: row.garoon_event_id,
+    googleEventId: row.google_event_id,
+    lastSynced: row.last_synced,
+    garoonUpdatedAt: row.garoon_updated_at,
+  };
+  if (row.route !== DEFAULT_ROUTE) {
+    event.route = row.route;
+  }
+  if (row.event_start !== null) {
+    event.eventStart = row.event_start;
+  }
+  if (row.event_end !== null) {
+    event.eventEnd = row.event_end;
+  }
+  if (row.instances !== null) {
+    event.instances = JSON.parse(row.instances);
+  }
+  if (row.conflict_detected_at !== null) {
+    event.conflictDetectedAt = row.conflict_detected_at;
+  }
+  if (row.payload_hash !== null) {
+    event.payloadHash = row.payload_hash;
+  }
+  if (row.candidate_event_ids !== null) {
+    event.candidateEventIds = JSON.parse(row.candidate_event_ids);
+  }
+  if (row.recurring !== null) {
+    event.recurring = row.recurring === 1;
+  }
+  return event;
+}
+
+/**
+ * データベースファイルの内容を読み込む
+ * 異常終了などでWALファイルが残っている場合は、未反映の内容も含めるためSQLiteで読み込む
+ * （WALファイルがない状態でSQLiteで開くと、読み込み専用でもWAL用のファイルが作成されるため）
+ * @param dbPath データベースファイルのパス
+ * @returns データベースの内容
+ */
+function readDatabaseFile(dbPath: string): Buffer {
+  if (!fs.existsSync(`${dbPath}-wal`)) {
+    return fs.readFileSync(dbPath);
+  }
+
+  const source = new Database(dbPath, { readonly: true, fileMustExist: true });
+  try {
+    return source.serialize();
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * データベースファイルの内容をメモリ上に複製して開く
+ * @param dbPath データベースファイルのパス
+ * @returns メモリ上のデータベース（ファイルが存在しない場合は空）
+ */
+function openInMemoryCopy(dbPath: string): Database.Database {
+  if (!fs.existsSync(dbPath)) {
+    return new Database(':memory:');
+  }
+
+  const buffer = readDatabaseFile(dbPath);
+  // WALモードのデータベースはメモリ上で開けないため、ヘッダーの読み書きのバージョンを通常のジャーナルに戻す
+  buffer[18] = 1;
+  buffer[19] = 1;
+  return new Database(buffer);
+}
+
+export class SqliteSyncStore implements SyncStore {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath データベースファイルのパス
+   * @param readOnly trueの場合はファイルの内容をメモリ上に複製して開き、ファイルを変更しない（計画モード用）
+   */
+  constructor(dbPath: string, readOnly = false) {
+    const exists = fs.existsSync(dbPath);
+    try {
+      this.db = readOnly ? openInMemoryCopy(dbPath) : new Database(dbPath);
+    } catch (error) {
+      throw new Error(
+        `SQLiteのデータベースを開けませんでした (${dbPath}): ${
+          error instanceof Error ? error.message : String(error)
+        }。better-sqlite3を使用できない環境では database.backend に "json" を設定してください`
+      );
+    }
+    if (!readOnly) {
+      this.db.pragma('journal_mode = WAL');
+    }
+
+    try {
+      // 複製したデータベースはバックアップを残さずにメモリ上で移行する
+      this.migrate(dbPath, exists && !readOnly);
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
+  }
+
+  /**
+   * データベースを最新のスキーマバージョンに移行
+   * 既存のデータベースは移行前にバックアップを残す
+   * @param dbPath データベースファイルのパス
+   * @param exists 開く前からファイルが存在したか
+   * @throws 新しいバージョンで作成されたデータベースの場合はエラーをスロー
+   */
+  private migrate(dbPath: string, exists: boolean): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    assertSupportedVersion(version, SQLITE_MIGRATIONS, dbPath);
+    if (version === SQLITE_SCHEMA_VERSION) {
+      return;
+    }
+
+    let backupPath: string | null = null;
+    if (exists) {
+      // WALの内容をデータベースファイルに反映してから複製する
+      this.db.pragma('wal_checkpoint(TRUNCATE)');
+      backupPath = backupBeforeMigration(dbPath, version);
+    }
+
+    this.db.transaction(() => {
+      const migrated = applyMigrations(this.db, version, SQLITE_MIGRATIONS);
+      this.db.pragma(`user_version = ${migrated}`);
+    })();
+
+    if (backupPath) {
+      console.log(
+        `同期データをスキーマバージョン${version}から${SQLITE_SCHEMA_VERSION}に移行しました（移行前のファイル: ${backupPath}）`
+      );
+    }
+  }
+
+  /**
+   * JSONファイルの同期データを取り込む（JSONからの移行用）
+   * @param data JSONファイルの内容
+   */
+  importData(data: SyncData): void {
+    const importAll = this.db.transaction(() => {
+      for (const event of Object.values(data.events)) {
+        this.putEvent(event, event.route || DEFAULT_ROUTE);
+      }
+
+      const insertLog = this.db.prepare(
+        `INSERT INTO sync_logs (id, timestamp, action, garoon_event_id, google_event_id, details)
+         VALUES (@id, @timestamp, @action, @garoon_event_id, @google_event_id, @details)`
+      );
+      for (const log of data.logs) {
+        insertLog.run(log);
+      }
+
+      if (data.lastFetchCount !== undefined) {
+        this.setLastFetchCount(data.lastFetchCount, DEFAULT_ROUTE);
+      }
+      const fetchCounts = Object.entries(data.routeFetchCounts || {});
+      for (const [route, count] of fetchCounts) {
+        this.setLastFetchCount(count, route);
+      }
+      const syncTokens = Object.entries(data.googleSyncTokens || {});
+      for (const [route, token] of syncTokens) {
+        this.setGoogleSyncToken(token, route);
+      }
+
+      const deletionsByRoute = new Map<string, PendingDeletion[]>();
+      for (const deletion of data.pendingDeletions || []) {
+        const route = deletion.route || DEFAULT_ROUTE;
+        deletionsByRoute.set(route, [
+          ...(deletionsByRoute.get(route) || []),
+          deletion,
+        ]);
+      }
+      for (const [route, deletions] of deletionsByRoute) {
+        this.setPendingDeletions(deletions, route);
+      }
+    });
+    importAll();
+  }
+
+  /**
+   * 状態（取得件数・同期トークンなど）を取得
+   * @param key キー
+   * @returns 保存されている値（存在しない場合はundefined）
+   */
+  private getState<T>(key: string): T | undefined {
+    const row = this.db
+      .prepare('SELECT value FROM sync_state WHERE key = ?')
+      .get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  /**
+   * 状態（取得件数・同期トークンなど）を保存
+   * @param key キー
+   * @param value 保存する値
+   */
+  private setState(key: string, value: unknown): void {
+    this.db
+      .prepare(
+        'INSERT INTO sync_state (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value'
+      )
+      .run(key, JSON.stringify(value));
+  }
+
+  getEvent(garoonEventId: string, route: string): SyncedEventInfo | null {
+    const row = this.db
+      .prepare(
+        'SELECT * FROM synced_events WHERE route = ? AND garoon_event_id = ?'
+      )
+      .get(route, garoonEventId) as SyncedEventRow | undefined;
+    return row ? toSyncedEventInfo(row) : null;
+  }
+
+  putEvent(event: SyncedEventInfo, route: string): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO synced_events (
+           route, garoon_event_id, google_event_id, last_synced, garoon_updated_at,
+           event_start, event_end, instances, conflict_detected_at, payload_hash,
+           candidate_event_ids, recurring
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        route,
+        event.garoonEventId,
+        event.googleEventId,
+        event.lastSynced,
+        event.garoonUpdatedAt,
+        event.eventStart ?? null,
+        event.eventEnd ?? null,
+        event.instances ? JSON.stringify(event.instances) : null,
+        event.conflictDetectedAt ?? null,
+        event.payloadHash ?? null,
+        event.candidateEventIds?.length
+          ? JSON.stringify(event.candidateEventIds)
+          : null,
+        event.recurring === undefined ? null : Number(event.recurring)
+      );
+  }
+
+  deleteEvent(garoonEventId: string, route: string): void {
+    this.db
+      .prepare(
+        'DELETE FROM synced_events WHERE route = ? AND garoon_event_id = ?'
+      )
+      .run(route, garoonEventId);
+  }
+
+  deleteEventByGoogleEventId(googleEventId: string): void {
+    this.db
+      .prepare('DELETE FROM synced_events WHERE google_event_id = ?')
+      .run(googleEventId);
+  }
+
+  listEvents(route?: string): SyncedEventInfo[] {
+    const rows = (
+      route === undefined
+        ? this.db.prepare('SELECT * FROM synced_events').all()
+        : this.db
+            .prepare('SELECT * FROM synced_events WHERE route = ?')
+            .all(route)
+    ) as SyncedEventRow[];
+    return rows.map(toSyncedEventInfo);
+  }
+
+  deleteEventsSyncedBefore(cutoff: string): void {
+    this.db
+      .prepare('DELETE FROM synced_events WHERE last_synced < ?')
+      .run(cutoff);
+  }
+
+  getLastFetchCount(route: string): number | undefined {
+    return this.getState<number>(`lastFetchCount:${route}`);
+  }
+
+  setLastFetchCount(count: number, route: string): void {
+    this.setState(`lastFetchCount:${route}`, count);
+  }
+
+  getGoogleSyncToken(route: string): string | undefined {
+    return this.getState<string>(`googleSyncToken:${route}`);
+  }
+
+  setGoogleSyncToken(token: string, route: string): void {
+    this.setState(`googleSyncToken:${route}`, token);
+  }
+
+  getPendingDeletions(route: string): PendingDeletion[] {
+    return this.getState<PendingDeletion[]>(`pendingDeletions:${route}`) || [];
+  }
+
+  setPendingDeletions(deletions: PendingDeletion[], route: string): void {
+    this.setState(`pendingDeletions:${route}`, deletions);
+  }
+
+  appendLog(entry: Omit<SyncLogEntry, 'id'>): void {
+    const { lastInsertRowid } = this.db
+      .prepare(
+        `INSERT INTO sync_logs (timestamp, action, garoon_event_id, google_event_id, details)
+         VALUES (@timestamp, @action, @garoon_event_id, @google_event_id, @details)`
+      )
+      .run(entry);
+
+    // 古いログを削除
+    this.db
+      .prepare('DELETE FROM sync_logs WHERE id <= ?')
+      .run(Number(lastInsertRowid) - MAX_LOGS);
+  }
+
+  getRecentLogs(limit: number): SyncLogEntry[] {
+    return this.db
+      .prepare('SELECT * FROM sync_logs ORDER BY id DESC LIMIT ?')
+      .all(limit) as SyncLogEntry[];
+  }
+
+  beginTransaction(): void {
+    if (!this.db.inTransaction) {
+      this.db.exec('BEGIN');
+    }
+  }
+
+  commitTransaction(): void {
+    if (this.db.inTransaction) {
+      this.db.exec('COMMIT');
+    }
+  }
+
+  close(): void {
+    this.commitTransaction();
+    this.db.close();
+  }
+}
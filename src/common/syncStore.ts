@@ -0,0 +1,87 @@
+// 同期データの保存先の共通インターフェースと型定義
+
+// ルート指定のない同期情報の名前空間（ルート導入前のデータとの互換性のため）
+export const DEFAULT_ROUTE = 'default';
+
+export interface SyncLogEntry {
+  id: number;
+  timestamp: string;
+  action: string;
+  garoon_event_id: string | null;
+  google_event_id: string | null;
+  details: string | null;
+}
+
+export interface SyncedEventInfo {
+  garoonEventId: string;
+  googleEventId: string;
+  // 同期先のルート名（既定のルートの場合は省略）
+  route?: string;
+  lastSynced: string;
+  garoonUpdatedAt: string;
+  // イベントの開始・終了日時（削除検出の対象期間の判定に使用）
+  eventStart?: string;
+  eventEnd?: string;
+  // 繰り返しイベントの回ごとの変更（キーは本来の開始日時）
+  instances?: Record<string, SyncedInstanceInfo>;
+  // ガルーンとGoogleの編集が競合し、確認を依頼した日時
+  conflictDetectedAt?: string;
+  // 前回作成・更新したGoogleイベントの内容のハッシュ（表示設定の変更の検出用）
+  payloadHash?: string;
+  // 仮予定の2番目以降の候補日時のGoogleイベントID（1番目はgoogleEventId）
+  candidateEventIds?: string[];
+  // 繰り返しイベントかどうか（記録前の旧形式のレコードは未設定）
+  recurring?: boolean;
+}
+
+export interface SyncedInstanceInfo {
+  googleEventId: string;
+  status: 'modified' | 'cancelled';
+  start?: string;
+  end?: string;
+}
+
+export interface SyncInfoDetails {
+  eventStart?: string;
+  eventEnd?: string;
+  payloadHash?: string;
+  candidateEventIds?: string[];
+  recurring?: boolean;
+}
+
+export interface PendingDeletion {
+  route?: string;
+  garoonEventId: string;
+  googleEventId: string;
+  detectedAt: string;
+  reasons: string[];
+}
+
+/**
+ * 同期データの保存先
+ * ルートの既定値・更新日時の付与などはSyncDatabaseが行い、保存先は読み書きのみを担う
+ */
+export interface SyncStore {
+  getEvent(garoonEventId: string, route: string): SyncedEventInfo | null;
+  putEvent(event: SyncedEventInfo, route: string): void;
+  deleteEvent(garoonEventId: string, route: string): void;
+  deleteEventByGoogleEventId(googleEventId: string): void;
+  // ルート省略時は全ルート
+  listEvents(route?: string): SyncedEventInfo[];
+  deleteEventsSyncedBefore(cutoff: string): void;
+
+  getLastFetchCount(route: string): number | undefined;
+  setLastFetchCount(count: number, route: string): void;
+  getGoogleSyncToken(route: string): string | undefined;
+  setGoogleSyncToken(token: string, route: string): void;
+  getPendingDeletions(route: string): PendingDeletion[];
+  setPendingDeletions(deletions: PendingDeletion[], route: string): void;
+
+  appendLog(entry: Omit<SyncLogEntry, 'id'>): void;
+  getRecentLogs(limit: number): SyncLogEntry[];
+
+  // 同期1回分の書き込みをまとめる
+  beginTransaction(): void;
+  commitTransaction(): void;
+  close(): void;
+}
@@ -0,0 +1,254 @@
+// Googleイベントのタイトル・説明・場所のテンプレート
+
+import { getEventFacilities } from './facilities';
+import { GaroonEvent } from '../types/garoon';
+import { EventTemplateConfig } from '../types/config';
+
+// テンプレートの各項目（設定で省略した項目は既定のテンプレートを使用）
+export type EventTemplates = Required<EventTemplateConfig>;
+
+// 既定のテンプレート（場所には予約した施設名を含める）
+export const DEFAULT_TEMPLATES: EventTemplates = {
+  summary: '{{#if eventMenu}}{{eventMenu}}: {{/if}}{{subject}}',
+  description:
+    '{{notes}}{{#if attendeeNames}}\n\n参加者: {{attendeeNames}}{{/if}}\n\n(ガルーンから同期)',
+  location:
+    '{{#if facilityNames}}{{facilityNames}}{{#if location}} / {{location}}{{/if}}{{else}}{{location}}{{/if}}',
+};
+
+// Google Calendarの各項目の最大文字数
+export const GOOGLE_FIELD_LIMITS: Record<keyof EventTemplates, number> = {
+  summary: 1024,
+  description: 8192,
+  location: 1024,
+};
+
+// テンプレートで参照できる値
+export type TemplateContext = Record<string, unknown>;
+
+// テンプレートの構文木
+type TemplateNode = TextNode | ValueNode | IfNode;
+
+interface TextNode {
+  type: 'text';
+  text: string;
+}
+
+interface ValueNode {
+  type: 'value';
+  path: string;
+}
+
+interface IfNode {
+  type: 'if';
+  path: string;
+  then: TemplateNode[];
+  else: TemplateNode[];
+}
+
+const TAG_PATTERN = /\{\{\s*(#if\s+[\w.]+|else|\/if|[\w.]+)\s*\}\}/g;
+
+/**
+ * テンプレートを構文木に変換
+ * @param template テンプレート
+ * @returns 構文木
+ * @throws {{#if}}と{{/if}}の対応が取れていない場合はエラーをスロー
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // 処理中の{{#if}}（入れ子に対応するためスタックで管理）
+  const stack: { node: IfNode; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return root;
+    }
+    return top.inElse ? top.node.else : top.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) {
+      current().push({
+        type: 'text',
+        text: template.slice(lastIndex, match.index),
+      });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    const tag = match[1];
+    if (tag.startsWith('#if')) {
+      const node: IfNode = {
+        type: 'if',
+        path: tag.slice(3).trim(),
+        then: [],
+        else: [],
+      };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new Error(
+          `テンプレートの{{else}}に対応する{{#if}}がありません: ${template}`
+        );
+      }
+      top.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        throw new Error(
+          `テンプレートの{{/if}}に対応する{{#if}}がありません: ${template}`
+        );
+      }
+    } else {
+      current().push({ type: 'value', path: tag });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(
+      `テンプレートの{{#if}}が{{/if}}で閉じられていません: ${template}`
+    );
+  }
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', text: template.slice(lastIndex) });
+  }
+  return root;
+}
+
+/**
+ * ドット区切りのパスで値を取得
+ * @param context テンプレートで参照できる値
+ * @param path パス（例: start.dateTime）
+ * @returns 値（存在しない場合はundefined）
+ */
+function lookup(context: TemplateContext, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, context);
+}
+
+/**
+ * 値を文字列に変換（配列はカンマ区切り、未設定とオブジェクトは空文字）
+ * @param value 値
+ * @returns 文字列
+ */
+function toText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).filter(Boolean).join(', ');
+  }
+  if (typeof value === 'object') {
+    return '';
+  }
+  return String(value);
+}
+
+/**
+ * {{#if}}の条件を判定（空文字・空配列・0・false・未設定は偽）
+ * @param value 値
+ * @returns 条件を満たす場合true
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * 構文木を文字列に展開
+ * @param nodes 構文木
+ * @param context テンプレートで参照できる値
+ * @returns 展開した文字列
+ */
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'value':
+          return toText(lookup(context, node.path));
+        case 'if':
+          return renderNodes(
+            isTruthy(lookup(context, node.path)) ? node.then : node.else,
+            context
+          );
+      }
+    })
+    .join('');
+}
+
+/**
+ * テンプレートの構文を検証
+ * @param template テンプレート
+ * @throws 構文が不正な場合はエラーをスロー
+ */
+export function validateTemplate(template: string): void {
+  parseTemplate(template);
+}
+
+/**
+ * テンプレートを展開
+ * {{項目}}で値を、{{#if 項目}}...{{else}}...{{/if}}で条件付きの内容を出力する
+ * @param template テンプレート
+ * @param context テンプレートで参照できる値
+ * @returns 展開した文字列
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext
+): string {
+  return renderNodes(parseTemplate(template), context);
+}
+
+/**
+ * 文字列を最大文字数に切り詰める（サロゲートペアを分割しない）
+ * @param text 文字列
+ * @param maxLength 最大文字数（UTF-16のコード単位数）
+ * @returns 切り詰めた文字列（切り詰めた場合は末尾に…を付ける）
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  let result = '';
+  for (const char of text) {
+    if (result.length + char.length > maxLength - 1) {
+      break;
+    }
+    result += char;
+  }
+  return `${result}…`;
+}
+
+/**
+ * ガルーンイベントからテンプレートで参照できる値を作成
+ * ガルーンイベントの全項目に加えて、参加者名・施設名・ガルーンの予定のURLを参照できる
+ * @param garoonEvent ガルーンイベント
+ * @param attendeeNames 説明欄に表示する参加者名（カンマ区切り）
+ * @param garoonBaseUrl ガルーンのベースURL
+ * @returns テンプレートで参照できる値
+ */
+export function buildTemplateContext(
+  garoonEvent: GaroonEvent,
+  attendeeNames: string,
+  garoonBaseUrl: string
+): TemplateContext {
+  const users = garoonEvent.attendees.filter((a) => a.type === 'USER');
+  const facilities = getEventFacilities(garoonEvent);
+
+  const baseUrl = garoonBaseUrl.replace(/\/$/, '');
+
+  return {
+    ...garoonEvent,
+    attendeeNames,
+    attendeeCount: users.length,
+    facilityNames: facilities.map((f) => f.name).join(', '),
+    garoonUrl: `${baseUrl}/g/schedule/view.csp?event=${garoonEvent.id}`,
+  };
+}
@@ -0,0 +1,68 @@
+// ガルーンの仮予定（候補日時から日程を調整中の予定）
+
+import { GaroonEvent } from '../types/garoon';
+
+/**
+ * 仮予定かどうかを判定
+ * @param garoonEvent ガルーンイベント
+ * @returns 仮予定の場合true
+ */
+export function isTemporaryEvent(garoonEvent: GaroonEvent): boolean {
+  return garoonEvent.eventType === 'TEMPORARY';
+}
+
+/**
+ * 仮予定を候補日時ごとのイベントに展開
+ * 候補ごとに施設が予約されている場合は、その候補の施設のみとする
+ * 候補日時が返されない場合は、予定自体の日時を唯一の候補とする
+ * @param garoonEvent 仮予定のガルーンイベント
+ * @returns 開始・終了日時を候補日時に置き換えたイベントの配列（候補の順）
+ */
+export function expandTemporaryCandidates(
+  garoonEvent: GaroonEvent
+): GaroonEvent[] {
+  const candidates = garoonEvent.temporaryEventCandidates || [];
+  if (candidates.length === 0) {
+    return [garoonEvent];
+  }
+
+  return candidates.map((candidate) => {
+    const event: GaroonEvent = {
+      ...garoonEvent,
+      start: candidate.start,
+      end: candidate.end,
+    };
+    if (candidate.facility) {
+      event.facilities = [candidate.facility];
+      event.attendees = garoonEvent.attendees.filter(
+        (a) => a.type !== 'FACILITY'
+      );
+    }
+    return event;
+  });
+}
+
+/**
+ * 仮予定のすべての候補日時を含む期間を取得（削除検出の対象期間の判定用）
+ * @param garoonEvent 仮予定のガルーンイベント
+ * @returns 最も早い候補の開始日時と、最も遅い候補の終了日時
+ */
+export function getTemporaryEventPeriod(garoonEvent: GaroonEvent): {
+  start: string;
+  end: string;
+} {
+  const candidates = expandTemporaryCandidates(garoonEvent);
+  let start = candidates[0].start.dateTime;
+  let end = candidates[0].end.dateTime;
+
+  for (const candidate of candidates.slice(1)) {
+    if (Date.parse(candidate.start.dateTime) < Date.parse(start)) {
+      start = candidate.start.dateTime;
+    }
+    if (Date.parse(candidate.end.dateTime) > Date.parse(end)) {
+      end = candidate.end.dateTime;
+    }
+  }
+
+  return { start, end };
+}
@@ -0,0 +1,212 @@
+// 参加者の解決（ガルーンのユーザー → Googleの参加者のメールアドレス）
+
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from '../common/fileUtils';
+import { GaroonClient } from '../common/garoon';
+import { AttendeeConfig } from '../types/config';
+import { GaroonAttendee, GaroonFacility, GaroonUser } from '../types/garoon';
+import { GoogleAttendee } from '../types/google';
+
+// ユーザー一覧のキャッシュファイルの形式
+interface UserCache {
+  fetchedAt: string;
+  users: Pick<GaroonUser, 'id' | 'code' | 'email'>[];
+}
+
+/**
+ * ガルーンの参加者をGoogleの参加者に変換
+ * メールアドレスが分からないユーザーは名前のみを返す（説明欄に記載するため）
+ * @param attendees ガルーンの参加者
+ * @param resolve 参加者のメールアドレスを取得する関数
+ * @returns Googleの参加者と、メールアドレスが分からなかった参加者の名前
+ */
+export function buildAttendees(
+  attendees: GaroonAttendee[],
+  resolve: (attendee: GaroonAttendee) => string | undefined
+): { attendees: GoogleAttendee[]; unresolvedNames: string[] } {
+  const result: GoogleAttendee[] = [];
+  const unresolvedNames: string[] = [];
+  const seen = new Set<string>();
+
+  for (const attendee of attendees) {
+    if (attendee.type !== 'USER') {
+      continue;
+    }
+
+    const email = resolve(attendee);
+    if (!email) {
+      unresolvedNames.push(attendee.name);
+      continue;
+    }
+
+    const key = email.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push({ email, displayName: attendee.name });
+    }
+  }
+
+  return { attendees: result, unresolvedNames };
+}
+
+/**
+ * 予約した施設をGoogleのリソースカレンダーの参加者に変換
+ * @param facilities 予約した施設
+ * @param resourceCalendars 施設（施設ID・施設コード・施設名）とリソースカレンダーのメールアドレスの対応
+ * @returns リソースカレンダーの参加者（対応がない施設は含めない）
+ */
+export function buildResourceAttendees(
+  facilities: GaroonFacility[],
+  resourceCalendars: Record<string, string>
+): GoogleAttendee[] {
+  const result: GoogleAttendee[] = [];
+  const seen = new Set<string>();
+
+  for (const facility of facilities) {
+    const email =
+      resourceCalendars[facility.id] ||
+      (facility.code && resourceCalendars[facility.code]) ||
+      resourceCalendars[facility.name];
+    if (!email || seen.has(email.toLowerCase())) {
+      continue;
+    }
+    seen.add(email.toLowerCase());
+    result.push({ email, displayName: facility.name, resource: true });
+  }
+
+  return result;
+}
+
+export class AttendeeResolver {
+  private config: AttendeeConfig;
+  private garoon: Pick<GaroonClient, 'listUsers'>;
+  private cachePath: string;
+
+  // 対応表（ガルーンのユーザーIDまたはログイン名 → メールアドレス）
+  private mapping: Record<string, string> = {};
+  // ユーザー一覧から取得したメールアドレス（ガルーンのユーザーID → メールアドレス）
+  private directory = new Map<string, string>();
+
+  /**
+   * @param config 参加者の設定
+   * @param garoon ガルーンAPIクライアント（ユーザー一覧の取得用）
+   * @param cachePath ユーザー一覧のキャッシュファイルのパス
+   */
+  constructor(
+    config: AttendeeConfig,
+    garoon: Pick<GaroonClient, 'listUsers'>,
+    cachePath: string
+  ) {
+    this.config = config;
+    this.garoon = garoon;
+    this.cachePath = cachePath;
+  }
+
+  /**
+   * 対応表とユーザー一覧を読み込む
+   * ユーザー一覧の取得に失敗した場合は期限切れのキャッシュで続行する
+   * @param saveCache 取得したユーザー一覧をキャッシュに保存するか（計画モードでは保存しない）
+   */
+  async load(saveCache = true): Promise<void> {
+    this.mapping = this.loadMapping();
+
+    if (!this.config.useGaroonDirectory) {
+      return;
+    }
+
+    const cache = this.readCache();
+    const maxAge = this.config.cacheHours * 60 * 60 * 1000;
+    if (cache && Date.now() - Date.parse(cache.fetchedAt) < maxAge) {
+      this.setDirectory(cache.users);
+      return;
+    }
+
+    try {
+      const users = await this.garoon.listUsers();
+      const entries = users.map(({ id, code, email }) => ({ id, code, email }));
+      if (saveCache) {
+        this.writeCache({
+          fetchedAt: new Date().toISOString(),
+          users: entries,
+        });
+      }
+      this.setDirectory(entries);
+    } catch (error) {
+      console.warn(
+        `ガルーンのユーザー一覧を取得できませんでした${
+          cache ? '。キャッシュを使用します' : ''
+        }: ${error instanceof Error ? error.message : String(error)}`
+      );
+      this.setDirectory(cache?.users || []);
+    }
+  }
+
+  /**
+   * 参加者のメールアドレスを取得
+   * @param attendee ガルーンの参加者
+   * @returns メールアドレス（分からない場合はundefined）
+   */
+  resolve(attendee: GaroonAttendee): string | undefined {
+    return (
+      this.mapping[attendee.id] ||
+      (attendee.code ? this.mapping[attendee.code] : undefined) ||
+      this.directory.get(attendee.id)
+    );
+  }
+
+  /**
+   * 対応表ファイルを読み込む
+   * @returns 対応表（設定されていない場合は空）
+   */
+  private loadMapping(): Record<string, string> {
+    if (!this.config.mappingFile) {
+      return {};
+    }
+
+    const mappingPath = path.resolve(process.cwd(), this.config.mappingFile);
+    try {
+      return JSON.parse(fs.readFileSync(mappingPath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `参加者の対応表を読み込めませんでした (${mappingPath}): ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * ユーザー一覧からメールアドレスの対応を作成
+   * @param users ユーザー一覧
+   */
+  private setDirectory(users: UserCache['users']): void {
+    this.directory = new Map(
+      users.filter((u) => u.email).map((u) => [u.id, u.email as string])
+    );
+  }
+
+  /**
+   * ユーザー一覧のキャッシュを読み込む
+   * @returns キャッシュ（存在しない・読み込めない場合はnull）
+   */
+  private readCache(): UserCache | null {
+    if (!fs.existsSync(this.cachePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.cachePath, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * ユーザー一覧のキャッシュを保存
+   * @param cache キャッシュ
+   */
+  private writeCache(cache: UserCache): void {
+    fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+    writeFileAtomic(this.cachePath, JSON.stringify(cache, null, 2));
+  }
+}
@@ -0,0 +1,196 @@
+// Google APIの認証（サービスアカウント / OAuthユーザー認証）
+
+import fs from 'fs';
+import { Credentials, GoogleAuth, JWT, OAuth2Client } from 'google-auth-library';
+import { writeFileAtomic } from '../common/fileUtils';
+import { GoogleOAuthConfig } from '../types/google';
+
+export const CALENDAR_SCOPE = 'https://www.googleapis.com/auth/calendar';
+
+// 認証情報ファイルの種類
+// service_account: サービスアカウントの鍵 / authorized_user: OAuthのリフレッシュトークン
+export type GoogleCredentialsType = 'service_account' | 'authorized_user';
+
+// 認証情報ファイルの内容（サービスアカウント・OAuthの両形式で使用する項目）
+interface GoogleCredentialsFile {
+  type?: string;
+  client_id?: string;
+  client_secret?: string;
+  redirect_uris?: string[];
+  refresh_token?: string;
+  access_token?: string;
+  expiry_date?: number;
+  private_key?: string;
+  client_email?: string;
+  installed?: unknown;
+  web?: unknown;
+}
+
+export interface GoogleAuthOptions {
+  // Domain-Wide Delegationで代理するユーザー（サービスアカウントのみ）
+  subject?: string;
+  // 認証情報ファイルにクライアントID・シークレットが含まれない場合に使用
+  oauth?: GoogleOAuthConfig;
+}
+
+export interface GoogleAuthResult {
+  auth: GoogleAuth | JWT | OAuth2Client;
+  type: GoogleCredentialsType;
+  // クライアントID（エラー表示用）
+  clientId?: string;
+}
+
+/**
+ * 認証情報ファイルの種類を判定
+ * @param credentials 認証情報ファイルの内容
+ * @returns 認証情報の種類
+ * @throws 同期に使用できない形式の場合はエラーをスロー
+ */
+export function detectCredentialsType(
+  credentials: GoogleCredentialsFile
+): GoogleCredentialsType {
+  if (credentials.type === 'service_account' || credentials.private_key) {
+    return 'service_account';
+  }
+
+  if (credentials.type === 'authorized_user' || credentials.refresh_token) {
+    return 'authorized_user';
+  }
+
+  if (credentials.installed || credentials.web) {
+    throw new Error(
+      'OAuthクライアントの認証情報ファイルにはリフレッシュトークンが含まれていません。get-google-tokenスクリプトでリフレッシュトークンを取得してください'
+    );
+  }
+
+  throw new Error(
+    'Google認証情報ファイルの形式を判別できません。サービスアカウントの鍵またはリフレッシュトークンを含むファイルを指定してください'
+  );
+}
+
+/**
+ * 認証情報ファイルから認証クライアントを作成
+ * ファイルの種類から認証方式を自動判定する
+ * @param credentialsPath 認証情報ファイルのパス
+ * @param options 認証オプション
+ * @returns 認証クライアントと認証方式
+ */
+export function createGoogleAuth(
+  credentialsPath: string,
+  options: GoogleAuthOptions = {}
+): GoogleAuthResult {
+  const credentials = readCredentials(credentialsPath);
+  const type = detectCredentialsType(credentials);
+
+  if (type === 'service_account') {
+    // 代理するユーザーが設定されている場合はDomain-Wide Delegationで認証する
+    if (options.subject) {
+      return {
+        auth: new JWT({
+          keyFile: credentialsPath,
+          scopes: [CALENDAR_SCOPE],
+          subject: options.subject,
+        }),
+        type,
+        clientId: credentials.client_id,
+      };
+    }
+
+    return {
+      auth: new GoogleAuth({
+        keyFile: credentialsPath,
+        scopes: [CALENDAR_SCOPE],
+      }),
+      type,
+      clientId: credentials.client_id,
+    };
+  }
+
+  if (options.subject) {
+    throw new Error(
+      'Domain-Wide Delegation（subjectの設定）はサービスアカウントの認証情報でのみ使用できます'
+    );
+  }
+
+  const clientId = credentials.client_id || options.oauth?.clientId;
+  const clientSecret = credentials.client_secret || options.oauth?.clientSecret;
+  if (!clientId || !clientSecret) {
+    throw new Error(
+      'OAuthのクライアントIDまたはクライアントシークレットが設定されていません。認証情報ファイルに含めるか、GOOGLE_CLIENT_IDとGOOGLE_CLIENT_SECRETを設定してください'
+    );
+  }
+
+  const client = new OAuth2Client(
+    clientId,
+    clientSecret,
+    credentials.redirect_uris?.[0]
+  );
+  client.setCredentials({
+    refresh_token: credentials.refresh_token,
+    access_token: credentials.access_token,
+    expiry_date: credentials.expiry_date,
+  });
+
+  // アクセストークンは期限切れ時に自動で更新される。更新されたトークンはファイルに保存する
+  client.on('tokens', (tokens) => {
+    try {
+      saveRefreshedTokens(credentialsPath, tokens);
+    } catch (error) {
+      console.warn(
+        `更新されたGoogleのトークンを保存できませんでした: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  });
+
+  return { auth: client, type, clientId };
+}
+
+/**
+ * 更新されたトークンを認証情報ファイルに保存
+ * リフレッシュトークンがローテーションされた場合は新しいトークンに置き換える
+ * @param credentialsPath 認証情報ファイルのパス
+ * @param tokens 更新されたトークン
+ */
+export function saveRefreshedTokens(
+  credentialsPath: string,
+  tokens: Credentials
+): void {
+  const credentials = readCredentials(credentialsPath);
+
+  if (tokens.refresh_token && tokens.refresh_token !== credentials.refresh_token) {
+    console.log('Googleのリフレッシュトークンが更新されました');
+    credentials.refresh_token = tokens.refresh_token;
+  }
+  if (tokens.access_token) {
+    credentials.access_token = tokens.access_token;
+  }
+  if (tokens.expiry_date) {
+    credentials.expiry_date = tokens.expiry_date;
+  }
+
+  // 認証情報ファイルは所有者のみ読み書きできるようにする
+  writeFileAtomic(
+    credentialsPath,
+    JSON.stringify(credentials, null, 2),
+    0o600
+  );
+}
+
+/**
+ * 認証情報ファイルを読み込む
+ * @param credentialsPath 認証情報ファイルのパス
+ * @returns 認証情報ファイルの内容
+ */
+function readCredentials(credentialsPath: string): GoogleCredentialsFile {
+  try {
+    return JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Google認証情報ファイルを読み込めませんでした (${credentialsPath}): ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
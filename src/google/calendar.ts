@@ -1,18 +1,43 @@
 // Google Calendar API操作
 
 import { google, calendar_v3 } from 'googleapis';
-import { GoogleAuth } from 'google-auth-library';
 import fs from 'fs';
 import path from 'path';
-import { GoogleCalendarConfig, GoogleEvent } from '../types/google';
+import {
+  GoogleAutoDeclineMode,
+  GoogleCalendarConfig,
+  GoogleEvent,
+  GoogleEventType,
+  GoogleReminder,
+} from '../types/google';
+import { DEFAULT_TIME_ZONE } from '../common/dateTime';
 import { withRetry } from '../common/retry';
+import { CALENDAR_SCOPE, createGoogleAuth } from './auth';
+
+// APIのイベント（使用しているgoogleapisの型定義にない不在イベントの設定を含む）
+type ApiEvent = calendar_v3.Schema$Event & {
+  outOfOfficeProperties?: {
+    autoDeclineMode?: string | null;
+    declineMessage?: string | null;
+  } | null;
+};
 
 export class GoogleCalendarClient {
   private calendar: calendar_v3.Calendar;
   private calendarId: string;
+  private sendUpdates: 'all' | 'externalOnly' | 'none';
+  // タイムゾーンが指定されていないイベントに使用するタイムゾーン
+  private timeZone: string;
+  // Domain-Wide Delegationで代理するユーザー（設定されていない場合はundefined）
+  private subject?: string;
+  // サービスアカウントのクライアントID（Domain-Wide Delegationのエラー表示用）
+  private clientId?: string;
 
   constructor(config: GoogleCalendarConfig) {
     this.calendarId = config.calendarId;
+    // 既定では参加者への通知を無効化
+    this.sendUpdates = config.sendUpdates || 'none';
+    this.timeZone = config.timeZone || DEFAULT_TIME_ZONE;
 
     // 認証情報ファイルのパスを解決（パストラバーサル対策）
     const credentialsPath = this.resolveSecurePath(config.credentials);
@@ -21,17 +46,20 @@ export class GoogleCalendarClient {
       throw new Error(`Google認証情報ファイルが見つかりません: ${credentialsPath}`);
     }
 
-    // サービスアカウント認証を使用
-    const auth = new GoogleAuth({
-      keyFile: credentialsPath,
-      scopes: ['https://www.googleapis.com/auth/calendar'],
+    // 認証情報ファイルの種類（サービスアカウント / OAuth）から認証方式を判定
+    const { auth, clientId } = createGoogleAuth(credentialsPath, {
+      subject: config.subject,
+      oauth: config.oauth,
     });
+    this.subject = config.subject;
+    this.clientId = clientId;
 
     this.calendar = google.calendar({ version: 'v3', auth });
   }
 
   /**
    * イベントを作成する
+   * IDを指定した場合、同じIDのイベントが既に存在する（削除済みを含む）ときはそのイベントを更新する
    * @param event 作成するイベント
    * @returns 作成されたイベントのID
    */
@@ -39,21 +67,45 @@ export class GoogleCalendarClient {
     return withRetry(async () => {
       try {
         const requestBody = this.convertToRequestBody(event);
-
-        const response = await this.calendar.events.insert({
-          calendarId: this.calendarId,
-          requestBody,
-          sendUpdates: 'none', // 参加者への通知を無効化
-        });
-
-        if (!response.data.id) {
-          throw new Error('イベントIDが返されませんでした');
+        if (event.id) {
+          requestBody.id = event.id;
         }
 
-        return response.data.id;
+        try {
+          const response = await this.calendar.events.insert({
+            calendarId: this.calendarId,
+            requestBody,
+            sendUpdates: this.sendUpdates,
+          });
+
+          if (!response.data.id) {
+            throw new Error('イベントIDが返されませんでした');
+          }
+
+          return response.data.id;
+        } catch (error) {
+          if (!event.id || !this.isConflictError(error)) {
+            throw error;
+          }
+
+          // 前回の作成後に同期情報を保存できなかった場合など、既存のイベントを引き継いで更新する
+          console.log(`既存のイベントを引き継いで更新します: ${event.id}`);
+          await this.calendar.events.update({
+            calendarId: this.calendarId,
+            eventId: event.id,
+            requestBody: {
+              ...requestBody,
+              status: requestBody.status || 'confirmed',
+            },
+            sendUpdates: this.sendUpdates,
+          });
+          return event.id;
+        }
       } catch (error: unknown) {
         if (error instanceof Error) {
-          throw new Error(`イベントの作成に失敗しました: ${error.message}`);
+          throw new Error(
+            `イベントの作成に失敗しました: ${this.describeError(error)}`
+          );
         }
         throw new Error('イベントの作成に失敗しました: 不明なエラー');
       }
@@ -72,11 +124,13 @@ export class GoogleCalendarClient {
           calendarId: this.calendarId,
           eventId: eventId,
           requestBody: this.convertToRequestBody(event),
-          sendUpdates: 'none', // 参加者への通知を無効化
+          sendUpdates: this.sendUpdates,
         });
       } catch (error: unknown) {
         if (error instanceof Error) {
-          throw new Error(`イベントの更新に失敗しました: ${error.message}`);
+          throw new Error(
+            `イベントの更新に失敗しました: ${this.describeError(error)}`
+          );
         }
         throw new Error('イベントの更新に失敗しました: 不明なエラー');
       }
@@ -93,11 +147,13 @@ export class GoogleCalendarClient {
         await this.calendar.events.delete({
           calendarId: this.calendarId,
           eventId: eventId,
-          sendUpdates: 'none', // 参加者への通知を無効化
+          sendUpdates: this.sendUpdates,
         });
       } catch (error: unknown) {
         if (error instanceof Error) {
-          throw new Error(`イベントの削除に失敗しました: ${error.message}`);
+          throw new Error(
+            `イベントの削除に失敗しました: ${this.describeError(error)}`
+          );
         }
         throw new Error('イベントの削除に失敗しました: 不明なエラー');
       }
@@ -128,38 +184,121 @@ export class GoogleCalendarClient {
         return null;
       }
       if (error instanceof Error) {
-        throw new Error(`イベントの取得に失敗しました: ${error.message}`);
+        throw new Error(
+          `イベントの取得に失敗しました: ${this.describeError(error)}`
+        );
       }
       throw new Error('イベントの取得に失敗しました: 不明なエラー');
     }
   }
 
   /**
-   * 指定された期間のイベントを取得する
+   * 指定された期間のイベントを取得する（全ページ）
    * @param start 開始日時
    * @param end 終了日時
    * @returns イベントの配列
    */
   async listEvents(start: Date, end: Date): Promise<GoogleEvent[]> {
     try {
-      const response = await this.calendar.events.list({
-        calendarId: this.calendarId,
+      const { events } = await this.listAllPages({
         timeMin: start.toISOString(),
         timeMax: end.toISOString(),
         singleEvents: true,
         orderBy: 'startTime',
       });
+      return events;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(
+          `イベントの取得に失敗しました: ${this.describeError(error)}`
+        );
+      }
+      throw new Error('イベントの取得に失敗しました: 不明なエラー');
+    }
+  }
 
-      const items = response.data.items || [];
-      return items.map((item) => this.convertFromApiResponse(item));
+  /**
+   * カレンダーの全イベントを取得する（繰り返しイベントは各回に展開しない）
+   * @returns イベントの配列
+   */
+  async listAllEvents(): Promise<GoogleEvent[]> {
+    try {
+      const { events } = await this.listAllPages({});
+      return events;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(
+          `イベントの取得に失敗しました: ${this.describeError(error)}`
+        );
+      }
+      throw new Error('イベントの取得に失敗しました: 不明なエラー');
+    }
+  }
+
+  /**
+   * ガルーンから同期したイベントを取得する（全ページ、繰り返しイベントは各回に展開しない）
+   * 拡張プロパティは値の一致でのみ絞り込めるため、ガルーンイベントIDを指定しない場合は取得後に絞り込む
+   * @param garoonEventId 指定した場合は、このガルーンイベントから同期したイベントのみ取得
+   * @returns garoonEventIdを持つイベントの配列
+   */
+  async listSyncedEvents(garoonEventId?: string): Promise<GoogleEvent[]> {
+    if (!garoonEventId) {
+      const events = await this.listAllEvents();
+      return events.filter(
+        (event) => event.extendedProperties?.private?.garoonEventId
+      );
+    }
+
+    try {
+      const { events } = await this.listAllPages({
+        privateExtendedProperty: [`garoonEventId=${garoonEventId}`],
+      });
+      return events;
     } catch (error: unknown) {
       if (error instanceof Error) {
-        throw new Error(`イベントの取得に失敗しました: ${error.message}`);
+        throw new Error(
+          `イベントの取得に失敗しました: ${this.describeError(error)}`
+        );
       }
       throw new Error('イベントの取得に失敗しました: 不明なエラー');
     }
   }
 
+  /**
+   * 前回の取得以降に変更されたイベントを取得する（削除されたイベントを含む）
+   * 同期トークンが期限切れ (410 Gone) の場合は全件を取得し直す
+   * @param syncToken 前回の取得で返された同期トークン（省略時は全件を取得）
+   * @returns 変更されたイベント、次回用の同期トークン、全件を取得したかどうか
+   */
+  async listChanges(syncToken?: string): Promise<{
+    events: GoogleEvent[];
+    nextSyncToken: string;
+    fullSync: boolean;
+  }> {
+    try {
+      try {
+        const result = await this.listAllPages({ syncToken, showDeleted: true });
+        return { ...result, fullSync: !syncToken };
+      } catch (error) {
+        if (!syncToken || !this.isGoneError(error)) {
+          throw error;
+        }
+        console.warn(
+          'Googleの同期トークンが無効になったため、全件を取得し直します'
+        );
+        const result = await this.listAllPages({ showDeleted: true });
+        return { ...result, fullSync: true };
+      }
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(
+          `変更されたイベントの取得に失敗しました: ${this.describeError(error)}`
+        );
+      }
+      throw new Error('変更されたイベントの取得に失敗しました: 不明なエラー');
+    }
+  }
+
   /**
    * Google Calendar APIへの接続テスト
    * @returns 接続が成功したかどうか
@@ -178,11 +317,102 @@ export class GoogleCalendarClient {
 
       return true;
     } catch (error) {
-      console.error('Google Calendar接続テストエラー:', error);
+      console.error(
+        'Google Calendar接続テストエラー:',
+        this.isDelegationError(error) ? this.describeError(error as Error) : error
+      );
       return false;
     }
   }
 
+  /**
+   * イベント一覧を全ページ取得する
+   * @param params 一覧取得のパラメータ
+   * @returns イベントの配列と同期トークン（最終ページで返される）
+   */
+  private async listAllPages(
+    params: calendar_v3.Params$Resource$Events$List
+  ): Promise<{ events: GoogleEvent[]; nextSyncToken: string }> {
+    const events: GoogleEvent[] = [];
+    let pageToken: string | undefined;
+    let nextSyncToken = '';
+
+    do {
+      const response = await withRetry(() =>
+        this.calendar.events.list({
+          ...params,
+          calendarId: this.calendarId,
+          maxResults: 2500,
+          pageToken,
+        })
+      );
+
+      const items = response.data.items || [];
+      events.push(...items.map((item) => this.convertFromApiResponse(item)));
+      pageToken = response.data.nextPageToken || undefined;
+      nextSyncToken = response.data.nextSyncToken || nextSyncToken;
+    } while (pageToken);
+
+    return { events, nextSyncToken };
+  }
+
+  /**
+   * 同じIDのイベントが既に存在すること (409 Conflict) を示すエラーかどうかを判定
+   * @param error エラーオブジェクト
+   * @returns 該当する場合true
+   */
+  private isConflictError(error: unknown): boolean {
+    return (
+      error instanceof Error &&
+      'code' in error &&
+      Number((error as { code: unknown }).code) === 409
+    );
+  }
+
+  /**
+   * 同期トークンの期限切れ (410 Gone) を示すエラーかどうかを判定
+   * @param error エラーオブジェクト
+   * @returns 該当する場合true
+   */
+  private isGoneError(error: unknown): boolean {
+    return (
+      error instanceof Error &&
+      'code' in error &&
+      Number((error as { code: unknown }).code) === 410
+    );
+  }
+
+  /**
+   * エラーメッセージを取得（Domain-Wide Delegationが許可されていない場合は対処方法を含める）
+   * @param error エラーオブジェクト
+   * @returns エラーメッセージ
+   */
+  private describeError(error: Error): string {
+    if (!this.isDelegationError(error)) {
+      return error.message;
+    }
+
+    return (
+      `${this.subject} としての認証が拒否されました。` +
+      `Google Workspaceの管理コンソールで、サービスアカウント（クライアントID: ${
+        this.clientId || '不明'
+      }）にスコープ ${CALENDAR_SCOPE} のDomain-Wide Delegationを許可してください (${error.message})`
+    );
+  }
+
+  /**
+   * Domain-Wide Delegationが許可されていないことを示すエラーかどうかを判定
+   * @param error エラーオブジェクト
+   * @returns 該当する場合true
+   */
+  private isDelegationError(error: unknown): boolean {
+    return (
+      !!this.subject &&
+      error instanceof Error &&
+      /unauthorized_client|access_denied/.test(error.message)
+    );
+  }
+
   /**
    * パストラバーサル対策を施したパス解決
    * @param inputPath 入力パス
@@ -208,8 +438,8 @@ export class GoogleCalendarClient {
    */
   private convertToRequestBody(
     event: GoogleEvent
-  ): calendar_v3.Schema$Event {
-    const requestBody: calendar_v3.Schema$Event = {
+  ): ApiEvent {
+    const requestBody: ApiEvent = {
       summary: event.summary,
       description: event.description,
       location: event.location,
@@ -243,9 +473,15 @@ export class GoogleCalendarClient {
         displayName: a.displayName,
         responseStatus: a.responseStatus,
         optional: a.optional,
+        resource: a.resource,
       }));
     }
 
+    // 繰り返しルールの設定
+    if (event.recurrence && event.recurrence.length > 0) {
+      requestBody.recurrence = event.recurrence;
+    }
+
     // 拡張プロパティの設定
     if (event.extendedProperties) {
       requestBody.extendedProperties = {
@@ -258,13 +494,32 @@ export class GoogleCalendarClient {
       requestBody.reminders = event.reminders;
     }
 
+    // 色・予定あり/なし・イベントの種類の設定
+    if (event.colorId) {
+      requestBody.colorId = event.colorId;
+    }
+    if (event.transparency) {
+      requestBody.transparency = event.transparency;
+    }
+    if (event.eventType) {
+      requestBody.eventType = event.eventType;
+    }
+    if (event.outOfOfficeProperties) {
+      requestBody.outOfOfficeProperties = event.outOfOfficeProperties;
+    }
+
+    // 仮予定の候補日時は「仮」、確定した予定は「確定」の状態にする
+    if (event.status) {
+      requestBody.status = event.status;
+    }
+
     return requestBody;
   }
 
   /**
    * APIレスポンスをGoogleEventに変換
    */
-  private convertFromApiResponse(item: calendar_v3.Schema$Event): GoogleEvent {
+  private convertFromApiResponse(item: ApiEvent): GoogleEvent {
     const event: GoogleEvent = {
       id: item.id || undefined,
       summary: item.summary || '',
@@ -274,16 +529,17 @@ export class GoogleCalendarClient {
         ? { date: item.start.date }
         : {
             dateTime: item.start?.dateTime || '',
-            timeZone: item.start?.timeZone || 'Asia/Tokyo',
+            timeZone: item.start?.timeZone || this.timeZone,
           },
       end: item.end?.date
         ? { date: item.end.date }
         : {
             dateTime: item.end?.dateTime || '',
-            timeZone: item.end?.timeZone || 'Asia/Tokyo',
+            timeZone: item.end?.timeZone || this.timeZone,
           },
       visibility: item.visibility as GoogleEvent['visibility'],
       status: item.status as GoogleEvent['status'],
+      updated: item.updated || undefined,
     };
 
     // 参加者の変換
@@ -293,15 +549,53 @@ export class GoogleCalendarClient {
         displayName: a.displayName || undefined,
         responseStatus: a.responseStatus || undefined,
         optional: a.optional || undefined,
+        resource: a.resource || undefined,
       }));
     }
 
+    // 繰り返し情報の変換
+    if (item.recurrence) {
+      event.recurrence = item.recurrence;
+    }
+    if (item.recurringEventId) {
+      event.recurringEventId = item.recurringEventId;
+    }
+
+    // リマインダー・色・予定あり/なし・イベントの種類の変換
+    if (item.reminders) {
+      event.reminders = {
+        useDefault: item.reminders.useDefault ?? true,
+        overrides: item.reminders.overrides?.map((r) => ({
+          method: r.method as GoogleReminder['method'],
+          minutes: r.minutes || 0,
+        })),
+      };
+    }
+    if (item.colorId) {
+      event.colorId = item.colorId;
+    }
+    if (item.transparency) {
+      event.transparency = item.transparency as GoogleEvent['transparency'];
+    }
+    if (item.eventType) {
+      event.eventType = item.eventType as GoogleEventType;
+    }
+    if (item.outOfOfficeProperties) {
+      event.outOfOfficeProperties = {
+        autoDeclineMode: (item.outOfOfficeProperties.autoDeclineMode ||
+          undefined) as GoogleAutoDeclineMode | undefined,
+        declineMessage: item.outOfOfficeProperties.declineMessage || undefined,
+      };
+    }
+
     // 拡張プロパティの変換
     if (item.extendedProperties?.private) {
       event.extendedProperties = {
         private: item.extendedProperties.private as {
           garoonEventId?: string;
           garoonUpdatedAt?: string;
+          garoonSyncedHash?: string;
+          garoonCandidateIndex?: string;
         },
       };
     }
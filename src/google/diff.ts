@@ -0,0 +1,119 @@
+// Googleイベントの差分計算
+
+import { GoogleEvent } from '../types/google';
+import { SyncFieldDiff } from '../types/sync';
+
+// 差分の比較対象とするフィールド
+const DIFF_FIELDS = [
+  'summary',
+  'description',
+  'location',
+  'start',
+  'end',
+  'visibility',
+  'recurrence',
+  'attendees',
+  'colorId',
+  'reminders',
+  'transparency',
+  'eventType',
+  'outOfOfficeProperties',
+  'status',
+] as const;
+
+type DiffField = (typeof DIFF_FIELDS)[number];
+
+/**
+ * フィールドの値を比較・表示用の文字列に変換
+ * @param event Googleイベント
+ * @param field フィールド名
+ * @returns 文字列化した値（未設定の場合はundefined）
+ */
+function formatField(
+  event: GoogleEvent | null,
+  field: DiffField
+): string | undefined {
+  if (!event) {
+    return undefined;
+  }
+
+  if (field === 'start' || field === 'end') {
+    const time = event[field];
+    if ('date' in time) {
+      return time.date;
+    }
+    return time.timeZone ? `${time.dateTime} (${time.timeZone})` : time.dateTime;
+  }
+
+  if (field === 'recurrence') {
+    return event.recurrence?.length ? event.recurrence.join('\n') : undefined;
+  }
+
+  if (field === 'attendees') {
+    return event.attendees?.length
+      ? event.attendees
+          .map((a) => a.email.toLowerCase())
+          .sort()
+          .join(', ')
+      : undefined;
+  }
+
+  if (field === 'outOfOfficeProperties') {
+    const properties = event.outOfOfficeProperties;
+    if (!properties) {
+      return undefined;
+    }
+    return [properties.autoDeclineMode, properties.declineMessage]
+      .filter(Boolean)
+      .join(': ');
+  }
+
+  if (field === 'reminders') {
+    // カレンダーの既定のリマインダーを使用する場合は未設定と同一視する
+    if (!event.reminders || event.reminders.useDefault) {
+      return undefined;
+    }
+    const overrides = event.reminders.overrides || [];
+    return overrides.length
+      ? overrides.map((r) => `${r.method}:${r.minutes}`).join(', ')
+      : 'なし';
+  }
+
+  const value = event[field];
+
+  // Google APIは既定の値を省略して返すため、既定の値は未設定と同一視する
+  if (
+    (field === 'visibility' && value === 'default') ||
+    (field === 'transparency' && value === 'opaque') ||
+    (field === 'eventType' && value === 'default') ||
+    (field === 'status' && value === 'confirmed')
+  ) {
+    return undefined;
+  }
+
+  return value ? value : undefined;
+}
+
+/**
+ * 2つのGoogleイベントのフィールド単位の差分を計算する
+ * @param before 変更前のイベント（新規作成の場合はnull）
+ * @param after 変更後のイベント（削除の場合はnull）
+ * @returns 差分の配列（差分がない場合は空配列）
+ */
+export function diffGoogleEvents(
+  before: GoogleEvent | null,
+  after: GoogleEvent | null
+): SyncFieldDiff[] {
+  const diffs: SyncFieldDiff[] = [];
+
+  for (const field of DIFF_FIELDS) {
+    const beforeValue = formatField(before, field);
+    const afterValue = formatField(after, field);
+
+    if (beforeValue !== afterValue) {
+      diffs.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+
+  return diffs;
+}
@@ -0,0 +1,54 @@
+// GoogleイベントIDの生成
+
+import crypto from 'crypto';
+import { GoogleEventType } from '../types/google';
+
+/**
+ * キーからGoogleイベントIDを作成
+ * GoogleイベントIDに使用できる文字（base32hex: 0-9, a-v）のみで構成する
+ * @param key ルート・ガルーンイベントIDなどを含むキー
+ * @returns GoogleイベントID
+ */
+function toEventId(key: string): string {
+  const hash = crypto.createHash('sha1').update(key).digest('hex');
+  return `g${hash}`;
+}
+
+/**
+ * ガルーンイベントから作成するGoogleイベントのIDを生成
+ * 同じガルーンイベント・ルートからは常に同じIDになるため、作成処理を再実行しても重複しない
+ * イベントの種類は作成後に変更できず作成し直すため、種類ごとに別のIDにする（通常のイベントは従来と同じID）
+ * @param garoonEventId ガルーンイベントID
+ * @param route ルート名
+ * @param eventType Googleイベントの種類（省略時は通常のイベント）
+ * @returns GoogleイベントID
+ */
+export function getDeterministicEventId(
+  garoonEventId: string,
+  route: string,
+  eventType: GoogleEventType = 'default'
+): string {
+  return toEventId(
+    eventType === 'default'
+      ? `${route}:${garoonEventId}`
+      : `${route}:${garoonEventId}:${eventType}`
+  );
+}
+
+/**
+ * 仮予定の候補日時から作成するGoogleイベントのIDを生成
+ * 最初の候補は通常のイベントと同じIDとし、日時が確定した際に確定した予定として引き継ぐ
+ * @param garoonEventId ガルーンイベントID
+ * @param route ルート名
+ * @param index 候補の番号（0始まり）
+ * @returns GoogleイベントID
+ */
+export function getCandidateEventId(
+  garoonEventId: string,
+  route: string,
+  index: number
+): string {
+  return index === 0
+    ? getDeterministicEventId(garoonEventId, route)
+    : toEventId(`${route}:${garoonEventId}:candidate${index}`);
+}
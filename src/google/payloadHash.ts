@@ -0,0 +1,53 @@
+// Googleイベントの内容のハッシュ（表示設定の変更などの検出用）
+
+import crypto from 'crypto';
+import { GoogleEvent } from '../types/google';
+
+/**
+ * オブジェクトのキーを並べ替え、未定義の項目を取り除く
+ * @param value 値
+ * @returns キーの順序に依存しない値
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return result;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * ガルーンイベントから作成したGoogleイベントの内容のハッシュを計算
+ * イベントIDは同じ内容でも作成・更新で異なるため含めない
+ * @param event ガルーンイベントから作成したGoogleイベント
+ * @returns SHA-256ハッシュ（16進数）
+ */
+export function hashGoogleEvent(event: GoogleEvent): string {
+  const payload: GoogleEvent = { ...event };
+  delete payload.id;
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(canonicalize(payload)))
+    .digest('hex');
+}
+
+/**
+ * 1件のガルーンイベントから作成した複数のGoogleイベントの内容のハッシュを計算
+ * 仮予定の候補日時ごとのイベントなど、順序も含めて比較する
+ * @param events ガルーンイベントから作成したGoogleイベントの配列
+ * @returns SHA-256ハッシュ（16進数）
+ */
+export function hashGoogleEvents(events: GoogleEvent[]): string {
+  return crypto
+    .createHash('sha256')
+    .update(events.map(hashGoogleEvent).join('\n'))
+    .digest('hex');
+}
@@ -0,0 +1,133 @@
+// Googleイベントの拡張プロパティからの同期情報の再構築
+
+import { GoogleEvent } from '../types/google';
+
+// 再構築した同期情報
+export interface RebuiltMapping {
+  garoonEventId: string;
+  googleEventId: string;
+  garoonUpdatedAt: string;
+  eventStart?: string;
+  eventEnd?: string;
+  // 仮予定の2番目以降の候補日時のGoogleイベントID
+  candidateEventIds?: string[];
+  // 繰り返しイベントかどうか
+  recurring: boolean;
+}
+
+// 同じガルーンイベントから作成された重複したGoogleイベント
+export interface DuplicateGroup {
+  garoonEventId: string;
+  // 同期情報として採用したイベント
+  kept: GoogleEvent;
+  // 削除候補のイベント
+  extras: GoogleEvent[];
+}
+
+/**
+ * Googleイベントの開始・終了を同期情報の日時に変換
+ * @param time Googleイベントの開始または終了
+ * @returns ISO 8601形式の日時
+ */
+function toEventTime(time: GoogleEvent['start']): string {
+  return 'date' in time ? `${time.date}T00:00:00` : time.dateTime;
+}
+
+/**
+ * 日時をエポックミリ秒に変換（未設定・不正な値は0）
+ * @param value ISO 8601形式の日時
+ * @returns エポックミリ秒
+ */
+function toEpoch(value?: string): number {
+  return Date.parse(value || '') || 0;
+}
+
+/**
+ * 採用するイベントの優先順位を比較
+ * ガルーンの更新日時が新しいもの、同じ場合はGoogleでの更新日時が新しいものを優先する
+ * @param a イベントA
+ * @param b イベントB
+ * @returns aを優先する場合は負の値
+ */
+function compareCandidates(a: GoogleEvent, b: GoogleEvent): number {
+  const garoonA = toEpoch(a.extendedProperties?.private?.garoonUpdatedAt);
+  const garoonB = toEpoch(b.extendedProperties?.private?.garoonUpdatedAt);
+  if (garoonA !== garoonB) {
+    return garoonB - garoonA;
+  }
+  return toEpoch(b.updated) - toEpoch(a.updated);
+}
+
+/**
+ * Googleイベントから同期情報を再構築し、重複したイベントを検出する
+ * 削除済みのイベントと繰り返しイベントの各回は対象外
+ * 仮予定の2番目以降の候補日時のイベントは重複とせず、最初の候補の同期情報に含める
+ * @param events 同期先カレンダーのイベント
+ * @returns 再構築した同期情報と重複したイベント
+ */
+export function rebuildMappings(events: GoogleEvent[]): {
+  mappings: RebuiltMapping[];
+  duplicates: DuplicateGroup[];
+} {
+  const groups = new Map<string, GoogleEvent[]>();
+  const candidates = new Map<string, string[]>();
+
+  for (const event of events) {
+    const garoonEventId = event.extendedProperties?.private?.garoonEventId;
+    if (
+      !garoonEventId ||
+      !event.id ||
+      event.status === 'cancelled' ||
+      event.recurringEventId
+    ) {
+      continue;
+    }
+
+    const candidateIndex =
+      event.extendedProperties?.private?.garoonCandidateIndex;
+    if (candidateIndex && candidateIndex !== '0') {
+      candidates.set(garoonEventId, [
+        ...(candidates.get(garoonEventId) || []),
+        event.id,
+      ]);
+      continue;
+    }
+
+    const group = groups.get(garoonEventId);
+    if (group) {
+      group.push(event);
+    } else {
+      groups.set(garoonEventId, [event]);
+    }
+  }
+
+  const mappings: RebuiltMapping[] = [];
+  const duplicates: DuplicateGroup[] = [];
+
+  for (const [garoonEventId, group] of groups) {
+    const [kept, ...extras] = [...group].sort(compareCandidates);
+
+    // 繰り返しイベントは期間の終了を判別できないため、開始・終了日時を記録しない
+    const times = kept.recurrence
+      ? {}
+      : {
+          eventStart: toEventTime(kept.start),
+          eventEnd: toEventTime(kept.end),
+        };
+
+    mappings.push({
+      garoonEventId,
+      googleEventId: kept.id!,
+      garoonUpdatedAt: kept.extendedProperties?.private?.garoonUpdatedAt || '',
+      ...times,
+      candidateEventIds: candidates.get(garoonEventId),
+      recurring: Boolean(kept.recurrence),
+    });
+
+    if (extras.length > 0) {
+      duplicates.push({ garoonEventId, kept, extras });
+    }
+  }
+
+  return { mappings, duplicates };
+}
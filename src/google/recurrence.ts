@@ -0,0 +1,245 @@
+// 繰り返し予定の変換（ガルーンの繰り返し条件 → Google CalendarのRRULE）
+
+import { toZonedDateTime } from '../common/dateTime';
+import { GaroonRepeatInfo } from '../types/garoon';
+
+// ガルーンの曜日 → RRULEの曜日
+const WEEKDAYS: Record<string, string> = {
+  SUN: 'SU',
+  MON: 'MO',
+  TUE: 'TU',
+  WED: 'WE',
+  THU: 'TH',
+  FRI: 'FR',
+  SAT: 'SA',
+};
+
+// 曜日の並び（Date#getUTCDay()の戻り値の順）
+const WEEKDAY_ORDER = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// 第n週の繰り返し種別 → RRULEの週番号
+const NTH_WEEKS: Record<string, number> = {
+  EVERY_1STWEEK: 1,
+  EVERY_2NDWEEK: 2,
+  EVERY_3RDWEEK: 3,
+  EVERY_4THWEEK: 4,
+  EVERY_LASTWEEK: -1,
+};
+
+// 初回の日付を探索する最大日数（月1回の繰り返しでも必ず見つかる範囲）
+const MAX_SEARCH_DAYS = 62;
+
+/**
+ * YYYY-MM-DD形式の日付をUTCのDateに変換（日付計算用）
+ * @param date 日付 (YYYY-MM-DD)
+ * @returns Dateオブジェクト
+ */
+function toUtcDate(date: string): Date {
+  const [year, month, day] = date.split('-').map((v) => parseInt(v, 10));
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * DateをYYYY-MM-DD形式に変換
+ * @param date Dateオブジェクト（UTC）
+ * @returns 日付 (YYYY-MM-DD)
+ */
+function formatUtcDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 指定日が繰り返し条件に一致するかどうかを判定
+ * @param date 日付 (YYYY-MM-DD)
+ * @param repeatInfo 繰り返し条件
+ * @returns 一致する場合true
+ */
+export function matchesRepeatRule(
+  date: string,
+  repeatInfo: GaroonRepeatInfo
+): boolean {
+  const d = toUtcDate(date);
+  const weekday = WEEKDAY_ORDER[d.getUTCDay()];
+  const day = d.getUTCDate();
+  const daysInMonth = new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+
+  switch (repeatInfo.type) {
+    case 'EVERY_DAY':
+      return true;
+    case 'EVERY_WEEKDAY':
+      return weekday !== 'SAT' && weekday !== 'SUN';
+    case 'EVERY_WEEK':
+      return weekday === repeatInfo.dayOfWeek;
+    case 'EVERY_MONTH':
+      if (repeatInfo.dayOfMonth === 'EOM') {
+        return day === daysInMonth;
+      }
+      return day === parseInt(repeatInfo.dayOfMonth || '', 10);
+    default: {
+      const nth = NTH_WEEKS[repeatInfo.type];
+      if (nth === undefined || weekday !== repeatInfo.dayOfWeek) {
+        return false;
+      }
+      if (nth === -1) {
+        return day + 7 > daysInMonth;
+      }
+      return Math.ceil(day / 7) === nth;
+    }
+  }
+}
+
+/**
+ * 繰り返し期間内で条件に一致する最初の日付を取得
+ * Google CalendarではDTSTARTが常に初回として扱われるため、条件に一致する日付を開始日にする
+ * @param repeatInfo 繰り返し条件
+ * @returns 最初の日付 (YYYY-MM-DD)。期間内に存在しない場合はnull
+ */
+export function findFirstOccurrenceDate(
+  repeatInfo: GaroonRepeatInfo
+): string | null {
+  const start = toUtcDate(repeatInfo.period.start);
+  const end = toUtcDate(repeatInfo.period.end);
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const candidate = new Date(start.getTime() + i * 24 * 60 * 60 * 1000);
+    if (candidate > end) {
+      break;
+    }
+    const date = formatUtcDate(candidate);
+    if (matchesRepeatRule(date, repeatInfo)) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 指定した期間に繰り返し予定の回があるかどうかを判定（削除された回は除く）
+ * @param repeatInfo 繰り返し条件
+ * @param startDate 期間の開始日 (YYYY-MM-DD)
+ * @param endDate 期間の終了日 (YYYY-MM-DD、含む)
+ * @returns 回がある場合true
+ */
+export function hasOccurrenceInRange(
+  repeatInfo: GaroonRepeatInfo,
+  startDate: string,
+  endDate: string
+): boolean {
+  const excluded = new Set(
+    (repeatInfo.exclusiveDateTimes || []).map((e) => e.start.slice(0, 10))
+  );
+  const from = toUtcDate(
+    startDate > repeatInfo.period.start ? startDate : repeatInfo.period.start
+  );
+  const to = toUtcDate(
+    endDate < repeatInfo.period.end ? endDate : repeatInfo.period.end
+  );
+
+  for (
+    let time = from.getTime();
+    time <= to.getTime();
+    time += 24 * 60 * 60 * 1000
+  ) {
+    const date = formatUtcDate(new Date(time));
+    if (matchesRepeatRule(date, repeatInfo) && !excluded.has(date)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * UTCの日時をRRULE/インスタンスID用の形式 (YYYYMMDDTHHMMSSZ) に変換
+ * @param dateTime ISO 8601形式の日時（オフセット付き）
+ * @returns 変換後の文字列
+ */
+export function formatUtcBasic(dateTime: string): string {
+  return new Date(dateTime).toISOString().replace(/[-:]/g, '').slice(0, 15) + 'Z';
+}
+
+/**
+ * ガルーンの繰り返し条件をGoogle Calendarのrecurrenceに変換
+ * @param repeatInfo 繰り返し条件
+ * @param timeZone 繰り返しのタイムゾーン（IANA形式）。終了日時のUTCオフセットを夏時間を考慮して求める。終日の場合は未使用
+ * @param isAllDay 終日イベントかどうか
+ * @returns recurrence配列（未対応の繰り返し種別の場合はnull）
+ */
+export function buildRecurrence(
+  repeatInfo: GaroonRepeatInfo,
+  timeZone: string,
+  isAllDay: boolean
+): string[] | null {
+  const parts: string[] = [];
+  const weekday = repeatInfo.dayOfWeek ? WEEKDAYS[repeatInfo.dayOfWeek] : '';
+
+  switch (repeatInfo.type) {
+    case 'EVERY_DAY':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'EVERY_WEEKDAY':
+      parts.push('FREQ=WEEKLY', 'BYDAY=MO,TU,WE,TH,FR');
+      break;
+    case 'EVERY_WEEK':
+      if (!weekday) return null;
+      parts.push('FREQ=WEEKLY', `BYDAY=${weekday}`);
+      break;
+    case 'EVERY_MONTH':
+      if (repeatInfo.dayOfMonth === 'EOM') {
+        parts.push('FREQ=MONTHLY', 'BYMONTHDAY=-1');
+      } else if (repeatInfo.dayOfMonth) {
+        parts.push('FREQ=MONTHLY', `BYMONTHDAY=${parseInt(repeatInfo.dayOfMonth, 10)}`);
+      } else {
+        return null;
+      }
+      break;
+    default: {
+      const nth = NTH_WEEKS[repeatInfo.type];
+      if (nth === undefined || !weekday) return null;
+      parts.push('FREQ=MONTHLY', `BYDAY=${nth}${weekday}`);
+    }
+  }
+
+  // 繰り返しの終了日（期間の最終日を含む）
+  if (isAllDay) {
+    parts.push(`UNTIL=${repeatInfo.period.end.replace(/-/g, '')}`);
+  } else {
+    parts.push(
+      `UNTIL=${formatUtcBasic(
+        toZonedDateTime(repeatInfo.period.end, '23:59:59', timeZone)
+      )}`
+    );
+  }
+
+  return [`RRULE:${parts.join(';')}`];
+}
+
+/**
+ * 繰り返しイベントの特定回のGoogleインスタンスIDを取得
+ * @param seriesId 繰り返しイベントのGoogleイベントID
+ * @param originalStart 本来の開始日時（ISO 8601形式）
+ * @param isAllDay 終日イベントかどうか
+ * @returns インスタンスID
+ */
+export function getInstanceId(
+  seriesId: string,
+  originalStart: string,
+  isAllDay: boolean
+): string {
+  if (isAllDay) {
+    return `${seriesId}_${originalStart.slice(0, 10).replace(/-/g, '')}`;
+  }
+  return `${seriesId}_${formatUtcBasic(originalStart)}`;
+}
+
+/**
+ * ISO 8601形式の日時からUTCオフセットを取得
+ * @param dateTime 日時
+ * @returns UTCオフセット（例: +09:00）。含まれない場合はZ
+ */
+export function getUtcOffset(dateTime: string): string {
+  const match = dateTime.match(/([+-]\d{2}:\d{2}|Z)$/);
+  return match ? match[1] : 'Z';
+}
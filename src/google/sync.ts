@@ -1,20 +1,126 @@
 // 同期ロジック
 
+import path from 'path';
 import { GaroonClient } from '../common/garoon';
 import { GoogleCalendarClient } from './calendar';
-import { SyncDatabase } from '../common/database';
+import {
+  DEFAULT_ROUTE,
+  PendingDeletion,
+  SyncDatabase,
+  SyncedEventInfo,
+  SyncInfoDetails,
+} from '../common/database';
 import { NotificationService } from '../common/notification';
-import { AppConfig } from '../types/config';
-import { GaroonEvent } from '../types/garoon';
-import { GoogleEvent } from '../types/google';
-import { loadConfig, validateConfig } from '../common/config';
+import {
+  AppConfig,
+  PrivateEventMode,
+  WriteBackField,
+} from '../types/config';
+import {
+  GaroonEvent,
+  GaroonScheduleResult,
+  GaroonTarget,
+} from '../types/garoon';
+import { GoogleAttendee, GoogleEvent } from '../types/google';
+import { SyncOptions, SyncPlan, SyncPlanAction } from '../types/sync';
+import {
+  getDefaultConfig,
+  loadConfig,
+  validateConfig,
+} from '../common/config';
+import {
+  addDays,
+  DEFAULT_TIME_ZONE,
+  endOfDay,
+  formatDateInTimeZone,
+  startOfDay,
+  toZonedDateTime,
+} from '../common/dateTime';
+import { evaluateDeletionSafety } from '../common/deletionSafety';
+import {
+  evaluateEventFilter,
+  EventFilterResult,
+} from '../common/eventFilter';
+import { getEventFacilities } from '../common/facilities';
+import { applyEventStyle, resolveEventStyle } from '../common/eventStyle';
+import { RunLock } from '../common/runLock';
+import {
+  expandTemporaryCandidates,
+  getTemporaryEventPeriod,
+  isTemporaryEvent,
+} from '../common/temporaryEvents';
+import {
+  buildTemplateContext,
+  DEFAULT_TEMPLATES,
+  EventTemplates,
+  GOOGLE_FIELD_LIMITS,
+  renderTemplate,
+  TemplateContext,
+  truncateText,
+} from '../common/template';
+import {
+  AttendeeResolver,
+  buildAttendees,
+  buildResourceAttendees,
+} from './attendees';
+import { diffGoogleEvents } from './diff';
+import { getCandidateEventId, getDeterministicEventId } from './eventId';
+import { hashGoogleEvent, hashGoogleEvents } from './payloadHash';
+import {
+  buildRecurrence,
+  findFirstOccurrenceDate,
+  getInstanceId,
+  getUtcOffset,
+  hasOccurrenceInRange,
+} from './recurrence';
+import {
+  buildGaroonUpdate,
+  getWriteBackValues,
+  hashWriteBackValues,
+  resolveConflict,
+  WriteBackValues,
+} from './writeBack';
+
+// 同期対象期間
+interface SyncWindow {
+  // 期間の開始・終了（エポックミリ秒）
+  start: number;
+  end: number;
+  // 期間の開始日・終了日 (YYYY-MM-DD)
+  startDate: string;
+  endDate: string;
+  // 日付の指定がなく、設定された既定の期間で同期しているかどうか
+  isDefault: boolean;
+}
+
+// 非公開の予定を「予定あり」として同期する場合のタイトル
+const BUSY_PLACEHOLDER_SUMMARY = '予定あり';
+
+// 同期先ルート（ガルーンのターゲットと同期先カレンダーの組）
+export interface SyncRoute {
+  name: string;
+  calendar: GoogleCalendarClient;
+  // 取得対象のターゲット（省略時はガルーンの設定に従う）
+  targets?: GaroonTarget[];
+  // 代理するユーザーの主カレンダーかどうか（不在・サイレント モードのイベントを作成できる）
+  primaryCalendar: boolean;
+}
 
 export class SyncService {
   private garoon: GaroonClient;
-  private googleCalendar: GoogleCalendarClient;
-  private db: SyncDatabase;
+  private routes: SyncRoute[];
+  // 同期の実行中のみ開く（他の同期処理が書き込んだ内容を読み込むため、ロックの取得後に開く）
+  private database: SyncDatabase | null = null;
   private notification: NotificationService;
   private config: AppConfig;
+  // 日付・日時を解釈するタイムゾーン
+  private timeZone: string;
+  // Googleイベントのタイトル・説明・場所のテンプレート
+  private templates: EventTemplates;
+  // 非公開の予定の同期方法
+  private privateEventMode: PrivateEventMode;
+  // 参加者の招待が無効な場合はnull
+  private attendees: AttendeeResolver | null;
 
   // 同期状態の記録
   private syncStats = {
@@ -24,91 +130,238 @@ export class SyncService {
     errors: 0,
   };
 
+  // 計画モード（dry-run）の状態。nullの場合は通常の同期を行う
+  private plan: SyncPlan | null = null;
+
+  // 同期中のルート
+  private route: SyncRoute;
+
+  // 実行中の同期オプション
+  private options: SyncOptions = {};
+
+  // 繰り返しイベントの各回（キーはガルーンイベントID）
+  private recurringOccurrences = new Map<string, GaroonEvent[]>();
+
+  // 前回の同期以降にGoogle側で変更されたイベント（キーはGoogleイベントID）
+  // 取得していない場合はnull（イベントごとに取得する）
+  private googleChanges: Map<string, GoogleEvent> | null = null;
+
+  // 今回の同期で新たに検出した編集の競合
+  private conflicts: {
+    garoonEventId: string;
+    googleEventId: string;
+    summary: string;
+  }[] = [];
+
   constructor(config: AppConfig) {
     validateConfig(config);
     this.config = config;
 
     // 各クライアントの初期化
-    this.garoon = new GaroonClient(config.garoon);
-    this.googleCalendar = new GoogleCalendarClient(config.google);
-    this.db = new SyncDatabase(config);
+    this.timeZone = config.sync.defaultTimeZone || DEFAULT_TIME_ZONE;
+    this.templates = { ...DEFAULT_TEMPLATES, ...config.sync.templates };
+    this.privateEventMode =
+      config.sync.privateEvents ||
+      (config.sync.excludePrivate ? 'exclude' : 'full');
+    this.garoon = new GaroonClient(config.garoon, this.timeZone);
+    this.routes = createSyncRoutes(config);
+    this.route = this.routes[0];
+    this.attendees = config.sync.attendees?.invite
+      ? new AttendeeResolver(
+          config.sync.attendees,
+          this.garoon,
+          path.join(path.dirname(config.database.path), 'garoon-users.json')
+        )
+      : null;
     this.notification = new NotificationService(config.teams);
+
+    // 不在・サイレント モードは代理するユーザーの主カレンダーにのみ作成できる
+    const usesStatusEvents = config.sync.styles?.some(
+      (style) => style.eventType && style.eventType !== 'default'
+    );
+    if (usesStatusEvents) {
+      for (const route of this.routes.filter((r) => !r.primaryCalendar)) {
+        console.warn(
+          `同期先 ${route.name} は代理するユーザーの主カレンダーではないため、不在・サイレント モードの予定は通常のイベントとして同期します`
+        );
+      }
+    }
+  }
+
+  /**
+   * 同期情報のデータベースを取得
+   * @returns 開いているデータベース
+   */
+  private get db(): SyncDatabase {
+    if (!this.database) {
+      throw new Error('同期情報のデータベースが開かれていません');
+    }
+    return this.database;
+  }
+
+  /**
+   * 同期情報のデータベースを閉じる
+   * 定期実行では同期ごとにSyncServiceを作成するため、同期の終了時に必ず閉じる
+   */
+  private closeDatabase(): void {
+    const database = this.database;
+    this.database = null;
+    database?.close();
   }
 
   /**
    * 指定期間のイベントを同期
    * @param startDate 開始日 (YYYY-MM-DD)
    * @param endDate 終了日 (YYYY-MM-DD)
+   * @param options 同期オプション
+   */
+  async syncEvents(
+    startDate?: string,
+    endDate?: string,
+    options: SyncOptions = {}
+  ): Promise<void> {
+    this.options = options;
+
+    // 他の同期処理（定期実行・手動実行）と同時に同期情報を更新しないよう排他制御する
+    const lock = new RunLock(
+      path.join(path.dirname(this.config.database.path), 'sync.lock')
+    );
+    if (!lock.tryAcquire()) {
+      const holder = lock.readHolder();
+      throw new Error(
+        `別の同期処理が実行中のため同期をスキップしました${
+          holder ? ` (PID: ${holder.pid}, 開始: ${holder.startedAt})` : ''
+        }`
+      );
+    }
+
+    // データベースを開けない・確定できない場合もロックは必ず解放する
+    // （解放しないとハートビートで更新され続け、以降の同期がすべてスキップされる）
+    try {
+      this.database = new SyncDatabase(this.config);
+
+      // 同期1回分の書き込みをまとめて確定する
+      // エラー時もGoogle Calendarに反映済みの変更を記録するため確定する
+      this.db.beginTransaction();
+      try {
+        await this.runSync(startDate, endDate);
+      } finally {
+        try {
+          this.db.commitTransaction();
+        } finally {
+          this.closeDatabase();
+        }
+      }
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * 同期を実行した場合の変更内容を計画として取得（dry-run）
+   * Google Calendarの更新系APIとデータベースへの書き込みは行わない
+   * 同期情報は読み込み専用で開き、データベースの移行やユーザー一覧のキャッシュの保存も行わない
+   * @param startDate 開始日 (YYYY-MM-DD)
+   * @param endDate 終了日 (YYYY-MM-DD)
+   * @param options 同期オプション
+   * @returns 作成・更新・削除の予定一覧
+   */
+  async planSync(
+    startDate?: string,
+    endDate?: string,
+    options: SyncOptions = {}
+  ): Promise<SyncPlan> {
+    const plan: SyncPlan = {
+      startDate: '',
+      endDate: '',
+      actions: [],
+      unchanged: 0,
+      skipped: 0,
+      errors: 0,
+      deletionBlockedReasons: [],
+    };
+    this.plan = plan;
+    this.options = options;
+    this.database = new SyncDatabase(this.config, { readOnly: true });
+
+    try {
+      await this.runSync(startDate, endDate);
+    } finally {
+      this.plan = null;
+      this.closeDatabase();
+    }
+
+    plan.errors = this.syncStats.errors;
+    return plan;
+  }
+
+  /**
+   * 同期処理の本体
+   * @param startDate 開始日 (YYYY-MM-DD)
+   * @param endDate 終了日 (YYYY-MM-DD)
    */
-  async syncEvents(startDate?: string, endDate?: string): Promise<void> {
+  private async runSync(startDate?: string, endDate?: string): Promise<void> {
     try {
-      // 日付が指定されていない場合は設定から取得
+      const isDefaultWindow = !startDate && !endDate;
+
+      // 日付が指定されていない場合は設定から取得（設定のタイムゾーンでの今日から）
+      const today = formatDateInTimeZone(new Date(), this.timeZone);
       if (!startDate) {
-        const today = new Date();
-        startDate = today.toISOString().slice(0, 10); // YYYY-MM-DD
+        startDate = today;
       }
 
       if (!endDate) {
-        const end = new Date();
-        end.setDate(end.getDate() + this.config.sync.days);
-        endDate = end.toISOString().slice(0, 10); // YYYY-MM-DD
+        endDate = addDays(today, this.config.sync.days);
       }
 
-      console.log(`${startDate}から${endDate}までのイベントを同期します...`);
+      console.log(
+        `${startDate}から${endDate}までのイベントを${
+          this.plan ? '同期した場合の変更内容を計画します (dry-run)' : '同期します'
+        }...`
+      );
+
+      if (this.plan) {
+        this.plan.startDate = startDate;
+        this.plan.endDate = endDate;
+      }
 
       // 同期統計情報のリセット
       this.resetSyncStats();
+      this.conflicts = [];
 
-      // ガルーンからイベントを取得
-      const events = await this.garoon.getSchedule(startDate, endDate);
-      console.log(`ガルーンから${events.length}件のイベントを取得しました`);
+      // 参加者のメールアドレスを解決するための対応表・ユーザー一覧を読み込む
+      await this.attendees?.load(!this.plan);
 
-      // ガルーンイベントIDのセットを作成（削除検出用）
-      const garoonEventIds = new Set(events.map((e) => e.id));
+      const syncWindow: SyncWindow = {
+        start: Date.parse(startOfDay(startDate, this.timeZone)),
+        end: Date.parse(endOfDay(endDate, this.timeZone)),
+        startDate,
+        endDate,
+        isDefault: isDefaultWindow,
+      };
 
-      // 非公開イベントを除外
-      const filteredEvents = events.filter(
-        (event) =>
-          !(
-            this.config.sync.excludePrivate &&
-            event.visibilityType === 'PRIVATE'
-          )
-      );
+      // ルートごとに同期（ルート間で同期情報・削除判定は独立）
+      for (const route of this.routes) {
+        this.route = route;
+        await this.syncRoute(startDate, endDate, syncWindow);
+      }
 
-      // バッチサイズ（並列実行数）
-      const BATCH_SIZE = 5;
+      // 編集の競合があれば確認を依頼
+      if (!this.plan && this.conflicts.length > 0) {
+        await this.notification.sendConflictNotification(this.conflicts);
+      }
 
-      // イベントをバッチ処理で同期
-      for (let i = 0; i < filteredEvents.length; i += BATCH_SIZE) {
-        const batch = filteredEvents.slice(i, i + BATCH_SIZE);
+      // 同期結果を通知
+      const { added, updated, deleted, errors } = this.syncStats;
 
-        const results = await Promise.allSettled(
-          batch.map((event) => this.syncEvent(event))
+      // 計画モードでは通知・クリーンアップを行わない
+      if (this.plan) {
+        console.log(
+          `計画完了: 追加予定=${added}, 更新予定=${updated}, 削除予定=${deleted}, エラー=${errors}`
         );
-
-        // エラー処理
-        results.forEach((result, index) => {
-          if (result.status === 'rejected') {
-            const event = batch[index];
-            this.syncStats.errors++;
-            console.error(`イベント同期エラー (ID: ${event.id}):`, result.reason);
-            this.db.logSync(
-              'ERROR',
-              event.id,
-              undefined,
-              result.reason instanceof Error
-                ? result.reason.message
-                : String(result.reason)
-            );
-          }
-        });
+        return;
       }
 
-      // Garoonから削除されたイベントをGoogle Calendarから削除
-      await this.deleteRemovedEvents(garoonEventIds);
-
-      // 同期結果を通知
-      const { added, updated, deleted, errors } = this.syncStats;
       console.log(
         `同期完了: 追加=${added}, 更新=${updated}, 削除=${deleted}, エラー=${errors}`
       );
@@ -139,7 +392,7 @@ export class SyncService {
       console.error('同期プロセスエラー:', error);
 
       // エラー通知
-      if (this.config.teams.notifyOnError) {
+      if (this.config.teams.notifyOnError && !this.plan) {
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         await this.notification.sendErrorNotification(
@@ -148,122 +401,1234 @@ export class SyncService {
         );
       }
 
-      throw error;
+      throw error;
+    }
+  }
+
+  /**
+   * 同期中のルートについてイベントを同期し、削除されたイベントを反映
+   * @param startDate 開始日 (YYYY-MM-DD)
+   * @param endDate 終了日 (YYYY-MM-DD)
+   * @param syncWindow 同期対象期間
+   */
+  private async syncRoute(
+    startDate: string,
+    endDate: string,
+    syncWindow: SyncWindow
+  ): Promise<void> {
+    // ガルーンからイベントを取得
+    const scheduleResult = await this.garoon.getScheduleWithStatus(
+      startDate,
+      endDate,
+      this.route.targets
+    );
+    const events = scheduleResult.events;
+    console.log(
+      `${this.routeLabel()}ガルーンから${events.length}件のイベントを取得しました`
+    );
+
+    // ガルーンイベントIDのセットを作成（削除検出用）
+    const garoonEventIds = new Set(events.map((e) => e.id));
+
+    // Google側の編集を検出するため、前回以降に変更されたイベントを取得
+    const errorsBefore = this.syncStats.errors;
+    const nextSyncToken = this.config.sync.writeBack?.enabled
+      ? await this.loadGoogleChanges()
+      : undefined;
+
+    // 非公開イベントと、絞り込みルールで除外したイベントを除外
+    const filteredEvents = this.applyEventFilter(
+      this.excludePrivateEvents(events, garoonEventIds),
+      garoonEventIds
+    );
+
+    // 繰り返し予定の各回を1つの繰り返しイベントにまとめる
+    const syncTargets = await this.groupRecurringEvents(filteredEvents);
+
+    // バッチサイズ（並列実行数）
+    const BATCH_SIZE = 5;
+
+    // イベントをバッチ処理で同期
+    for (let i = 0; i < syncTargets.length; i += BATCH_SIZE) {
+      const batch = syncTargets.slice(i, i + BATCH_SIZE);
+
+      const results = await Promise.allSettled(
+        batch.map((event) => this.syncEvent(event))
+      );
+
+      // エラー処理
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          const event = batch[index];
+          this.syncStats.errors++;
+          console.error(`イベント同期エラー (ID: ${event.id}):`, result.reason);
+          this.logSync(
+            'ERROR',
+            event.id,
+            undefined,
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason)
+          );
+        }
+      });
+    }
+
+    // Garoonから削除されたイベントをGoogle Calendarから削除
+    await this.deleteRemovedEvents(garoonEventIds, scheduleResult, syncWindow);
+
+    // エラーがあった場合は次回も同じ変更を検出できるよう、同期トークンを進めない
+    if (
+      !this.plan &&
+      nextSyncToken &&
+      this.syncStats.errors === errorsBefore
+    ) {
+      this.db.setGoogleSyncToken(nextSyncToken, this.route.name);
+    }
+    this.googleChanges = null;
+
+    // 既定の期間で全ターゲットの取得に成功した場合のみ、次回の件数比較用に取得件数を記録
+    if (
+      !this.plan &&
+      syncWindow.isDefault &&
+      scheduleResult.failedTargets.length === 0
+    ) {
+      this.db.setLastFetchCount(events.length, this.route.name);
+    }
+  }
+
+  /**
+   * 同期しない設定の非公開の予定を取り除く
+   * 削除検出用のIDからも取り除き、「予定あり」などとして同期済みのイベントはGoogle Calendarから削除する
+   * @param events ガルーンイベント
+   * @param garoonEventIds 削除検出用のガルーンイベントID
+   * @returns 同期するイベント
+   */
+  private excludePrivateEvents(
+    events: GaroonEvent[],
+    garoonEventIds: Set<string>
+  ): GaroonEvent[] {
+    if (this.privateEventMode !== 'exclude') {
+      return events;
+    }
+
+    const included: GaroonEvent[] = [];
+    for (const event of events) {
+      if (this.isPrivateEvent(event)) {
+        garoonEventIds.delete(event.id);
+      } else {
+        included.push(event);
+      }
+    }
+    return included;
+  }
+
+  /**
+   * 絞り込みルールで除外したイベントを取り除き、同期ログに記録
+   * 繰り返し予定の各回は同じIDのため、すべての回が除外された場合のみ同期対象外とする
+   * ただし時刻を変更した回のみが除外された場合は、繰り返し予定自体は除外しない（期間内に他の回がない場合など）
+   * 同期対象外としたイベントは削除検出用のIDから取り除き、同期済みのイベントをGoogle Calendarから削除する
+   * @param events ガルーンイベント
+   * @param garoonEventIds 削除検出用のガルーンイベントID
+   * @returns 同期するイベント
+   */
+  private applyEventFilter(
+    events: GaroonEvent[],
+    garoonEventIds: Set<string>
+  ): GaroonEvent[] {
+    const filter = this.config.sync.filter;
+    if (!filter) {
+      return events;
+    }
+
+    const included: GaroonEvent[] = [];
+    const excluded = new Map<
+      string,
+      { event: GaroonEvent; result: EventFilterResult }
+    >();
+    for (const event of events) {
+      const result = evaluateEventFilter(event, filter, this.timeZone);
+      if (result.included) {
+        included.push(event);
+      } else if (!excluded.has(event.id)) {
+        excluded.set(event.id, { event, result });
+      }
+    }
+
+    const includedIds = new Set(included.map((e) => e.id));
+    for (const [eventId, { event, result }] of excluded) {
+      if (includedIds.has(eventId)) {
+        continue;
+      }
+      const regular = this.toRegularOccurrence(event);
+      if (
+        regular &&
+        evaluateEventFilter(regular, filter, this.timeZone).included
+      ) {
+        continue;
+      }
+      garoonEventIds.delete(eventId);
+      if (this.plan) {
+        this.plan.skipped++;
+      }
+      this.logSync(
+        'SKIP',
+        eventId,
+        undefined,
+        result.rule ? `ルール ${result.rule} に一致` : '既定の動作により除外'
+      );
+    }
+    return included;
+  }
+
+  /**
+   * 繰り返し予定の回を、繰り返し条件どおりの時刻の回に置き換える
+   * @param occurrence 繰り返し予定の回
+   * @returns 本来の時刻の回（繰り返し予定でない場合・時刻を持たない場合はnull）
+   */
+  private toRegularOccurrence(occurrence: GaroonEvent): GaroonEvent | null {
+    const time = occurrence.repeatInfo?.time;
+    if (occurrence.eventType !== 'REPEATING' || !time) {
+      return null;
+    }
+    const date = occurrence.start.dateTime.slice(0, 10);
+    const timeZone = this.getSeriesTimeZone(occurrence);
+    return {
+      ...occurrence,
+      start: {
+        ...occurrence.start,
+        dateTime: toZonedDateTime(date, normalizeTime(time.start), timeZone),
+      },
+      end: {
+        ...occurrence.end,
+        dateTime: toZonedDateTime(date, normalizeTime(time.end), timeZone),
+      },
+    };
+  }
+
+  /**
+   * ログ出力用のルート名の接頭辞を取得（ルートが1つの場合は空文字）
+   * @returns 接頭辞
+   */
+  private routeLabel(): string {
+    return this.routes.length > 1 ? `[${this.route.name}] ` : '';
+  }
+
+  /**
+   * 前回の同期以降にGoogle側で変更されたイベントを取得
+   * 取得に失敗した場合はイベントごとの取得で続行する
+   * @returns 次回用の同期トークン（取得に失敗した場合はundefined）
+   */
+  private async loadGoogleChanges(): Promise<string | undefined> {
+    try {
+      const { events, nextSyncToken, fullSync } =
+        await this.route.calendar.listChanges(
+          this.db.getGoogleSyncToken(this.route.name)
+        );
+      this.googleChanges = new Map(
+        events.filter((e) => e.id).map((e) => [e.id as string, e])
+      );
+      console.log(
+        `${this.routeLabel()}Google Calendarから${
+          fullSync ? '全' : '変更された'
+        }${events.length}件のイベントを取得しました`
+      );
+      return nextSyncToken || undefined;
+    } catch (error) {
+      console.warn(
+        `${this.routeLabel()}Google Calendarの変更の取得に失敗しました。イベントごとに確認します: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      this.googleChanges = null;
+      return undefined;
+    }
+  }
+
+  /**
+   * 単一のイベントを同期
+   * @param garoonEvent ガルーンイベント
+   */
+  private async syncEvent(garoonEvent: GaroonEvent): Promise<void> {
+    // 同期情報を取得
+    const syncInfo = this.db.getSyncInfo(garoonEvent.id, this.route.name);
+
+    // Google側の編集をガルーンに書き戻す（繰り返しイベント・仮予定と「予定あり」として同期する予定は対象外）
+    if (
+      syncInfo &&
+      this.config.sync.writeBack?.enabled &&
+      !garoonEvent.repeatInfo &&
+      !isTemporaryEvent(garoonEvent) &&
+      !this.isBusyPlaceholder(garoonEvent)
+    ) {
+      const handled = await this.writeBackGoogleEdits(garoonEvent, syncInfo);
+      if (handled) {
+        return;
+      }
+    }
+
+    if (isTemporaryEvent(garoonEvent) && !syncInfo) {
+      // 新規の仮予定は候補日時ごとに作成
+      await this.syncCandidateEvents(garoonEvent, null);
+    } else if (!syncInfo) {
+      // 新規イベント
+      await this.createGoogleEvent(garoonEvent);
+    } else if (this.needsUpdate(garoonEvent, syncInfo)) {
+      // 更新されたイベント
+      if (isTemporaryEvent(garoonEvent)) {
+        await this.syncCandidateEvents(garoonEvent, syncInfo);
+      } else {
+        // 仮予定の日時が確定した場合は、最初の候補のイベントを確定した予定として残し、他の候補を削除
+        await this.deleteCandidateEvents(
+          garoonEvent.id,
+          syncInfo.candidateEventIds
+        );
+        await this.updateGoogleEvent(garoonEvent, syncInfo.googleEventId);
+      }
+    } else {
+      // 変更なし（繰り返しイベントの回ごとの変更は以降で反映する）
+      if (this.plan) {
+        this.plan.unchanged++;
+      } else {
+        // 開始・終了日時・内容のハッシュなどが未記録の旧形式のレコードは補完する
+        if (
+          !syncInfo.eventStart ||
+          !syncInfo.eventEnd ||
+          !syncInfo.payloadHash ||
+          syncInfo.recurring === undefined
+        ) {
+          this.db.saveSyncInfo(
+            garoonEvent.id,
+            syncInfo.googleEventId,
+            syncInfo.garoonUpdatedAt,
+            this.getSyncInfoDetails(garoonEvent),
+            this.route.name
+          );
+        }
+        this.db.logSync('UNCHANGED', garoonEvent.id, syncInfo.googleEventId);
+      }
+    }
+
+    // 繰り返しイベントは回ごとの削除・変更を反映
+    const occurrences = this.recurringOccurrences.get(garoonEvent.id);
+    if (occurrences && garoonEvent.repeatInfo) {
+      await this.syncInstanceOverrides(garoonEvent, occurrences);
+    }
+  }
+
+  /**
+   * 同期済みのGoogleイベントを更新する必要があるか判定
+   * ガルーンの更新日時のほか、表示設定の変更などで作成される内容が変わった場合も更新する
+   * 内容のハッシュが未記録の旧形式のレコードは、ガルーンの更新日時のみで判定する
+   * 仮予定以外で候補日時のイベントが残っている場合は、1件にまとめるため更新する
+   * @param garoonEvent ガルーンイベント
+   * @param syncInfo 同期情報
+   * @returns 更新が必要な場合true
+   */
+  private needsUpdate(
+    garoonEvent: GaroonEvent,
+    syncInfo: SyncedEventInfo
+  ): boolean {
+    if (this.options.force) {
+      return true;
+    }
+    if (syncInfo.garoonUpdatedAt !== garoonEvent.updatedAt) {
+      return true;
+    }
+    if (
+      !isTemporaryEvent(garoonEvent) &&
+      syncInfo.candidateEventIds?.length
+    ) {
+      return true;
+    }
+    if (!syncInfo.payloadHash) {
+      return false;
+    }
+    return syncInfo.payloadHash !== this.hashPayload(garoonEvent);
+  }
+
+  /**
+   * ガルーンイベントから作成するGoogleイベントの内容のハッシュを計算
+   * 仮予定は候補日時ごとのイベントをまとめたハッシュとする
+   * @param garoonEvent ガルーンイベント
+   * @returns 内容のハッシュ
+   */
+  private hashPayload(garoonEvent: GaroonEvent): string {
+    if (isTemporaryEvent(garoonEvent)) {
+      return hashGoogleEvents(this.convertToCandidateEvents(garoonEvent));
+    }
+    return hashGoogleEvent(this.convertToGoogleEvent(garoonEvent));
+  }
+
+  /**
+   * 書き戻しを行う項目を取得
+   * テンプレートで加工したタイトルと、施設名などを含む場所はガルーンの値に戻せないため書き戻さない
+   * @param garoonEvent ガルーンイベント
+   * @param garoonValues ガルーンの現在の内容（Googleイベント形式に変換したもの）
+   * @returns 書き戻しを行う項目
+   */
+  private getWriteBackFields(
+    garoonEvent: GaroonEvent,
+    garoonValues: WriteBackValues
+  ): WriteBackField[] {
+    return this.config.sync.writeBack!.fields.filter((field) => {
+      if (field === 'subject') {
+        return this.templates.summary === DEFAULT_TEMPLATES.summary;
+      }
+      if (field === 'location') {
+        return garoonValues.location === (garoonEvent.location || '');
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Google側で編集された内容を検出し、ガルーンに書き戻す
+   * ガルーン側も変更されている場合は設定された方針で解決する
+   * @param garoonEvent ガルーンイベント
+   * @param syncInfo 同期情報
+   * @returns 書き戻しまたは競合として処理した場合true（通常の同期を続ける場合false）
+   */
+  private async writeBackGoogleEdits(
+    garoonEvent: GaroonEvent,
+    syncInfo: SyncedEventInfo
+  ): Promise<boolean> {
+    const writeBack = this.config.sync.writeBack!;
+
+    // 変更されたイベントを取得済みの場合、一覧にないイベントは編集されていない
+    let googleEvent: GoogleEvent | null;
+    if (this.googleChanges) {
+      googleEvent = this.googleChanges.get(syncInfo.googleEventId) || null;
+      if (!googleEvent) {
+        return false;
+      }
+    } else {
+      googleEvent = await this.route.calendar.getEvent(syncInfo.googleEventId);
+    }
+
+    // 同期時点のハッシュがないイベントは編集を判定できない
+    const syncedHash = googleEvent?.extendedProperties?.private?.garoonSyncedHash;
+    if (!googleEvent || !syncedHash || googleEvent.status === 'cancelled') {
+      return false;
+    }
+
+    const currentHash = hashWriteBackValues(
+      getWriteBackValues(googleEvent, garoonEvent.eventMenu)
+    );
+    if (currentHash === syncedHash) {
+      return false;
+    }
+
+    const garoonChanged = syncInfo.garoonUpdatedAt !== garoonEvent.updatedAt;
+    const winner = garoonChanged
+      ? resolveConflict(
+          writeBack.conflictPolicy,
+          garoonEvent.updatedAt,
+          googleEvent.updated
+        )
+      : 'google';
+
+    if (winner === 'garoon') {
+      // ガルーンの内容で上書きする（通常の更新処理に任せる）
+      return false;
+    }
+
+    if (winner === 'review') {
+      console.warn(
+        `編集の競合を検出しました (Garoon=${garoonEvent.id}, Google=${syncInfo.googleEventId})`
+      );
+      if (this.plan) {
+        this.addPlanAction({
+          type: 'CONFLICT',
+          garoonEventId: garoonEvent.id,
+          googleEventId: syncInfo.googleEventId,
+          summary: googleEvent.summary,
+          diffs: [],
+        });
+        return true;
+      }
+      if (!syncInfo.conflictDetectedAt) {
+        this.conflicts.push({
+          garoonEventId: garoonEvent.id,
+          googleEventId: syncInfo.googleEventId,
+          summary: googleEvent.summary,
+        });
+        this.db.markConflict(garoonEvent.id, this.route.name);
+      }
+      this.db.logSync('CONFLICT', garoonEvent.id, syncInfo.googleEventId);
+      return true;
+    }
+
+    const garoonValues = getWriteBackValues(
+      this.convertToGoogleEvent(garoonEvent),
+      garoonEvent.eventMenu
+    );
+    const { update, diffs } = buildGaroonUpdate(
+      googleEvent,
+      garoonValues,
+      this.getWriteBackFields(garoonEvent, garoonValues),
+      garoonEvent.eventMenu
+    );
+
+    // 書き戻しを許可していない項目のみ編集された場合はガルーンの内容で上書きする
+    if (diffs.length === 0) {
+      if (!garoonChanged) {
+        await this.updateGoogleEvent(garoonEvent, syncInfo.googleEventId);
+        return true;
+      }
+      return false;
+    }
+
+    if (this.plan) {
+      this.addPlanAction({
+        type: 'WRITE_BACK',
+        garoonEventId: garoonEvent.id,
+        googleEventId: syncInfo.googleEventId,
+        summary: googleEvent.summary,
+        diffs,
+      });
+      this.syncStats.updated++;
+      return true;
+    }
+
+    const updatedGaroonEvent = await this.garoon.updateEvent(
+      garoonEvent.id,
+      update
+    );
+    this.db.logSync(
+      'WRITE_BACK',
+      garoonEvent.id,
+      syncInfo.googleEventId,
+      diffs.map((d) => d.field).join(', ')
+    );
+
+    // 書き戻し後のガルーンの内容でGoogleイベントを更新（同期時点のハッシュも更新される）
+    await this.updateGoogleEvent(
+      { ...garoonEvent, ...updatedGaroonEvent },
+      syncInfo.googleEventId
+    );
+    return true;
+  }
+
+  /**
+   * 繰り返し予定の各回を、繰り返しイベント1件にまとめる
+   * 繰り返し条件を変換できない予定はエラーとして記録し、同期対象から除外する
+   * @param events ガルーンイベント配列
+   * @returns 同期対象のイベント配列（繰り返し予定は初回の日時に置き換えたもの）
+   */
+  private async groupRecurringEvents(
+    events: GaroonEvent[]
+  ): Promise<GaroonEvent[]> {
+    this.recurringOccurrences = new Map();
+    const result: GaroonEvent[] = [];
+
+    for (const event of events) {
+      if (event.eventType !== 'REPEATING') {
+        result.push(event);
+        continue;
+      }
+      const occurrences = this.recurringOccurrences.get(event.id);
+      if (occurrences) {
+        occurrences.push(event);
+      } else {
+        this.recurringOccurrences.set(event.id, [event]);
+      }
+    }
+
+    for (const [eventId, occurrences] of this.recurringOccurrences) {
+      try {
+        result.push(await this.buildSeriesEvent(occurrences));
+      } catch (error) {
+        this.syncStats.errors++;
+        console.error(`繰り返し予定の変換エラー (ID: ${eventId}):`, error);
+        this.logSync(
+          'ERROR',
+          eventId,
+          undefined,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 繰り返し予定の各回から、繰り返しイベントの元になるイベントを作成
+   * @param occurrences 繰り返し予定の各回
+   * @returns 開始・終了日時を初回に合わせたガルーンイベント
+   */
+  private async buildSeriesEvent(
+    occurrences: GaroonEvent[]
+  ): Promise<GaroonEvent> {
+    const first = occurrences[0];
+
+    // 一覧取得で繰り返し条件が返されない場合は個別に取得する
+    let repeatInfo = first.repeatInfo;
+    if (!repeatInfo) {
+      repeatInfo = (await this.garoon.getEvent(first.id)).repeatInfo;
+    }
+    if (!repeatInfo) {
+      throw new Error('繰り返し条件を取得できませんでした');
+    }
+
+    const firstDate = findFirstOccurrenceDate(repeatInfo);
+    const timeZone = this.getSeriesTimeZone({ ...first, repeatInfo });
+    if (
+      !firstDate ||
+      !buildRecurrence(repeatInfo, timeZone, repeatInfo.isAllDay)
+    ) {
+      throw new Error(`未対応の繰り返し条件です: ${repeatInfo.type}`);
+    }
+
+    const startTime = normalizeTime(repeatInfo.time?.start || '00:00:00');
+    const endTime = repeatInfo.time?.end
+      ? normalizeTime(repeatInfo.time.end)
+      : repeatInfo.isAllDay
+        ? '23:59:59'
+        : startTime;
+
+    // UTCオフセットは取得した回ではなく初回の日付から求める（夏時間で初回と異なる場合があるため）
+    return {
+      ...first,
+      start: {
+        dateTime: toZonedDateTime(firstDate, startTime, timeZone),
+        timeZone,
+      },
+      end: {
+        dateTime: toZonedDateTime(firstDate, endTime, timeZone),
+        timeZone,
+      },
+      isAllDay: first.isAllDay || repeatInfo.isAllDay,
+      repeatInfo,
+    };
+  }
+
+  /**
+   * 繰り返しイベントの回ごとの削除・時刻変更をGoogleのインスタンスに反映
+   * @param seriesEvent 繰り返しイベントの元になるガルーンイベント
+   * @param occurrences 今回取得した各回
+   */
+  private async syncInstanceOverrides(
+    seriesEvent: GaroonEvent,
+    occurrences: GaroonEvent[]
+  ): Promise<void> {
+    const syncInfo = this.db.getSyncInfo(seriesEvent.id, this.route.name);
+    if (!syncInfo) {
+      // 計画モードで新規作成予定の場合
+      return;
+    }
+
+    const repeatInfo = seriesEvent.repeatInfo!;
+    const timeZone = this.getSeriesTimeZone(seriesEvent);
+    const isAllDay = this.isAllDayEvent(seriesEvent);
+    const recorded = syncInfo.instances || {};
+
+    // 削除された回
+    for (const exclusion of repeatInfo.exclusiveDateTimes || []) {
+      const originalStart = exclusion.start;
+      if (recorded[originalStart]?.status === 'cancelled') {
+        continue;
+      }
+
+      const instanceId = getInstanceId(
+        syncInfo.googleEventId,
+        originalStart,
+        isAllDay
+      );
+
+      if (this.plan) {
+        this.addPlanAction({
+          type: 'DELETE',
+          garoonEventId: seriesEvent.id,
+          googleEventId: instanceId,
+          summary: `${seriesEvent.subject} (${originalStart})`,
+          diffs: [],
+        });
+        this.syncStats.deleted++;
+        continue;
+      }
+
+      try {
+        await this.route.calendar.deleteEvent(instanceId);
+      } catch (error) {
+        if (!this.isAlreadyDeletedError(error)) {
+          throw error;
+        }
+      }
+      this.db.saveInstanceInfo(
+        seriesEvent.id,
+        originalStart,
+        { googleEventId: instanceId, status: 'cancelled' },
+        this.route.name
+      );
+      this.db.logSync(
+        'DELETE',
+        seriesEvent.id,
+        instanceId,
+        '繰り返し予定の回を削除'
+      );
+      this.syncStats.deleted++;
+    }
+
+    // 時刻が変更された回（終日の繰り返しは時刻を持たないため対象外）
+    if (isAllDay || !repeatInfo.time) {
+      return;
+    }
+
+    for (const occurrence of occurrences) {
+      const date = occurrence.start.dateTime.slice(0, 10);
+      const originalStart = toZonedDateTime(
+        date,
+        normalizeTime(repeatInfo.time.start),
+        timeZone
+      );
+      const originalEnd = toZonedDateTime(
+        date,
+        normalizeTime(repeatInfo.time.end),
+        timeZone
+      );
+      const isModified =
+        Date.parse(occurrence.start.dateTime) !== Date.parse(originalStart) ||
+        Date.parse(occurrence.end.dateTime) !== Date.parse(originalEnd);
+
+      // 反映済み、または変更のない回はスキップ
+      const record = recorded[originalStart];
+      if (
+        record?.status === 'cancelled' ||
+        (!record && !isModified) ||
+        (record?.start === occurrence.start.dateTime &&
+          record?.end === occurrence.end.dateTime)
+      ) {
+        continue;
+      }
+
+      const instanceId = getInstanceId(
+        syncInfo.googleEventId,
+        originalStart,
+        false
+      );
+      const instanceEvent = this.convertToGoogleEvent({
+        ...occurrence,
+        repeatInfo: undefined,
+      });
+
+      if (this.plan) {
+        this.addPlanAction({
+          type: 'UPDATE',
+          garoonEventId: seriesEvent.id,
+          googleEventId: instanceId,
+          summary: instanceEvent.summary,
+          diffs: diffGoogleEvents(null, instanceEvent).filter(
+            (d) => d.field === 'start' || d.field === 'end'
+          ),
+        });
+        this.syncStats.updated++;
+        continue;
+      }
+
+      await this.route.calendar.updateEvent(instanceId, instanceEvent);
+      this.db.saveInstanceInfo(
+        seriesEvent.id,
+        originalStart,
+        {
+          googleEventId: instanceId,
+          status: 'modified',
+          start: occurrence.start.dateTime,
+          end: occurrence.end.dateTime,
+        },
+        this.route.name
+      );
+      this.db.logSync(
+        'UPDATE',
+        seriesEvent.id,
+        instanceId,
+        '繰り返し予定の回を変更'
+      );
+      this.syncStats.updated++;
+    }
+  }
+
+  /**
+   * Google Calendarにイベントを作成
+   * @param garoonEvent ガルーンイベント
+   */
+  private async createGoogleEvent(garoonEvent: GaroonEvent): Promise<void> {
+    try {
+      // ガルーンイベントをGoogleイベント形式に変換
+      const googleEvent = this.convertToGoogleEvent(garoonEvent);
+
+      // ガルーンイベントから決まるIDで作成し、同期情報の保存前に中断しても次回に重複させない
+      googleEvent.id = getDeterministicEventId(
+        garoonEvent.id,
+        this.route.name,
+        googleEvent.eventType
+      );
+
+      // 計画モードでは作成予定として記録するのみ
+      if (this.plan) {
+        this.addPlanAction({
+          type: 'CREATE',
+          garoonEventId: garoonEvent.id,
+          googleEventId: googleEvent.id,
+          summary: googleEvent.summary,
+          diffs: diffGoogleEvents(null, googleEvent),
+        });
+        this.syncStats.added++;
+        return;
+      }
+
+      // Googleカレンダーに作成
+      const eventId = await this.route.calendar.createEvent(googleEvent);
+
+      // 同期情報を保存
+      this.db.saveSyncInfo(
+        garoonEvent.id,
+        eventId,
+        garoonEvent.updatedAt,
+        this.getSyncInfoDetails(garoonEvent),
+        this.route.name
+      );
+      this.db.clearInstanceInfo(garoonEvent.id, this.route.name);
+      this.db.logSync('CREATE', garoonEvent.id, eventId);
+
+      this.syncStats.added++;
+    } catch (error) {
+      throw new Error(
+        `イベント作成エラー (${garoonEvent.id}): ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Googleイベントを作成し直し、元のイベントを削除
+   * 作成に成功してから削除するため、途中で失敗しても予定が消えることはない
+   * @param garoonEvent ガルーンイベント
+   * @param googleEvent 作成するGoogleイベント
+   * @param previousEventId 元のGoogleイベントID
+   * @param reason 同期ログに記録する理由
+   */
+  private async recreateGoogleEvent(
+    garoonEvent: GaroonEvent,
+    googleEvent: GoogleEvent,
+    previousEventId: string,
+    reason: string
+  ): Promise<void> {
+    googleEvent.id = getDeterministicEventId(
+      garoonEvent.id,
+      this.route.name,
+      googleEvent.eventType
+    );
+    const eventId = await this.route.calendar.createEvent(googleEvent);
+
+    try {
+      await this.route.calendar.deleteEvent(previousEventId);
+    } catch (error) {
+      if (!this.isAlreadyDeletedError(error)) {
+        throw error;
+      }
+    }
+
+    this.db.saveSyncInfo(
+      garoonEvent.id,
+      eventId,
+      garoonEvent.updatedAt,
+      this.getSyncInfoDetails(garoonEvent),
+      this.route.name
+    );
+    this.db.clearInstanceInfo(garoonEvent.id, this.route.name);
+    this.db.logSync('UPDATE', garoonEvent.id, eventId, reason);
+
+    this.syncStats.updated++;
+  }
+
+  /**
+   * Garoonから削除されたイベントをGoogle Calendarから削除
+   * 削除の安全確認に該当する場合は削除を保留し、通知する
+   * @param currentGaroonEventIds 現在のガルーンイベントIDのセット
+   * @param scheduleResult ガルーンからの取得結果（取得失敗ターゲットの判定用）
+   * @param syncWindow 同期対象期間（期間外のイベントは削除対象にしない）
+   */
+  private async deleteRemovedEvents(
+    currentGaroonEventIds: Set<string>,
+    scheduleResult: GaroonScheduleResult,
+    syncWindow: SyncWindow
+  ): Promise<void> {
+    // データベースから全ての同期済みイベントを取得
+    const syncedEvents = this.db.getAllSyncedEvents(this.route.name);
+    const removedEvents: SyncedEventInfo[] = [];
+
+    for (const syncedEvent of syncedEvents) {
+      // garoonEventIdがnullの場合はスキップ（不正なレコードをクリーンアップ）
+      if (!syncedEvent.garoonEventId) {
+        if (!this.plan) {
+          this.db.deleteSyncInfoByGoogleEventId(syncedEvent.googleEventId);
+        }
+        continue;
+      }
+
+      // 同期対象期間外のイベントはガルーンから取得されないため、削除判定の対象外
+      if (!this.isInSyncWindow(syncedEvent, syncWindow)) {
+        continue;
+      }
+
+      // ガルーンに存在しないイベントを検出
+      if (
+        !currentGaroonEventIds.has(syncedEvent.garoonEventId) &&
+        (await this.isRemovedFromGaroon(syncedEvent, syncWindow))
+      ) {
+        removedEvents.push(syncedEvent);
+      }
+    }
+
+    // 削除の安全確認
+    const safety = evaluateDeletionSafety(
+      {
+        failedTargets: scheduleResult.failedTargets.map(
+          (f) => `${f.target.type}:${f.target.id}`
+        ),
+        fetchedCount: scheduleResult.events.length,
+        // 期間を指定した同期では件数を比較できないため、既定の期間の場合のみ比較する
+        previousFetchCount: syncWindow.isDefault
+          ? this.db.getLastFetchCount(this.route.name)
+          : undefined,
+        deletionCount: removedEvents.length,
+        approved: this.options.approveDeletions === true,
+      },
+      this.config.sync.deletionSafety ||
+        getDefaultConfig().sync.deletionSafety!
+    );
+
+    if (!safety.allowed) {
+      await this.holdDeletions(removedEvents, safety.reasons);
+      return;
+    }
+
+    if (!this.plan && this.db.getPendingDeletions(this.route.name).length > 0) {
+      this.db.setPendingDeletions([], this.route.name);
+    }
+
+    for (const syncedEvent of removedEvents) {
+      // 計画モードでは削除予定として記録するのみ
+      if (this.plan) {
+        await this.deleteCandidateEvents(
+          syncedEvent.garoonEventId,
+          syncedEvent.candidateEventIds
+        );
+        await this.planDeletion(
+          syncedEvent.garoonEventId,
+          syncedEvent.googleEventId
+        );
+        continue;
+      }
+
+      try {
+        // Google Calendarから削除（仮予定は2番目以降の候補のイベントから削除）
+        await this.deleteCandidateEvents(
+          syncedEvent.garoonEventId,
+          syncedEvent.candidateEventIds
+        );
+        await this.route.calendar.deleteEvent(syncedEvent.googleEventId);
+
+        // 同期情報を削除
+        this.db.deleteSyncInfo(syncedEvent.garoonEventId, this.route.name);
+        this.db.logSync(
+          'DELETE',
+          syncedEvent.garoonEventId,
+          syncedEvent.googleEventId
+        );
+
+        this.syncStats.deleted++;
+        console.log(
+          `イベントを削除しました: Garoon=${syncedEvent.garoonEventId}, Google=${syncedEvent.googleEventId}`
+        );
+      } catch (error) {
+        // 既に削除済みの場合はエラーを無視して同期情報のみ削除
+        if (this.isAlreadyDeletedError(error)) {
+          this.db.deleteSyncInfo(syncedEvent.garoonEventId, this.route.name);
+          this.db.logSync(
+            'DELETE',
+            syncedEvent.garoonEventId,
+            syncedEvent.googleEventId,
+            'Google側で既に削除済み'
+          );
+          this.syncStats.deleted++;
+        } else {
+          this.syncStats.errors++;
+          console.error(
+            `イベント削除エラー (Garoon=${syncedEvent.garoonEventId}):`,
+            error
+          );
+          this.db.logSync(
+            'ERROR',
+            syncedEvent.garoonEventId,
+            syncedEvent.googleEventId,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * 取得されなかった同期済みイベントを削除するか確認
+   * 繰り返し予定は記録した期間が繰り返しの全期間のため、同期対象期間に回がなく取得されなかった場合は削除しない
+   * 繰り返し予定でないと記録されたイベントは、ガルーンに問い合わせずに削除する
+   * 確認に失敗した場合は、誤って削除しないよう削除を見送る
+   * @param syncedEvent 同期済みイベント情報
+   * @param syncWindow 同期対象期間
+   * @returns 削除する場合true
+   */
+  private async isRemovedFromGaroon(
+    syncedEvent: SyncedEventInfo,
+    syncWindow: SyncWindow
+  ): Promise<boolean> {
+    if (syncedEvent.recurring === false && !syncedEvent.instances) {
+      return true;
+    }
+
+    let garoonEvent: GaroonEvent | null;
+    try {
+      garoonEvent = await this.garoon.findEvent(syncedEvent.garoonEventId);
+    } catch (error) {
+      console.warn(
+        `${this.routeLabel()}削除の確認に失敗したため削除を見送ります (Garoon=${
+          syncedEvent.garoonEventId
+        }): ${error instanceof Error ? error.message : String(error)}`
+      );
+      return false;
+    }
+
+    if (!garoonEvent?.repeatInfo) {
+      return true;
+    }
+    return hasOccurrenceInRange(
+      garoonEvent.repeatInfo,
+      syncWindow.startDate,
+      syncWindow.endDate
+    );
+  }
+
+  /**
+   * Google側で既に削除済みであることを示すエラーかどうかを判定
+   * @param error エラーオブジェクト
+   * @returns 削除済みの場合true
+   */
+  private isAlreadyDeletedError(error: unknown): boolean {
+    return (
+      error instanceof Error &&
+      (error.message.includes('404') ||
+        error.message.includes('410') ||
+        error.message.includes('Resource has been deleted'))
+    );
+  }
+
+  /**
+   * 同期済みイベントが同期対象期間と重なるかどうかを判定
+   * 開始・終了日時が未記録の旧形式のレコードは、既定の期間で同期している場合のみ対象とする
+   * @param syncedEvent 同期済みイベント情報
+   * @param syncWindow 同期対象期間
+   * @returns 期間と重なる場合true
+   */
+  private isInSyncWindow(
+    syncedEvent: SyncedEventInfo,
+    syncWindow: SyncWindow
+  ): boolean {
+    if (!syncedEvent.eventStart || !syncedEvent.eventEnd) {
+      return syncWindow.isDefault;
+    }
+
+    const eventStart = Date.parse(syncedEvent.eventStart);
+    const eventEnd = Date.parse(syncedEvent.eventEnd);
+    if (isNaN(eventStart) || isNaN(eventEnd)) {
+      return syncWindow.isDefault;
     }
+
+    return eventStart <= syncWindow.end && eventEnd > syncWindow.start;
   }
 
   /**
-   * 単一のイベントを同期
+   * 同期情報に保存するイベントの開始・終了日時と内容のハッシュなどを取得
    * @param garoonEvent ガルーンイベント
+   * @returns 同期情報の詳細
    */
-  private async syncEvent(garoonEvent: GaroonEvent): Promise<void> {
-    // 同期情報を取得
-    const syncInfo = this.db.getSyncInfo(garoonEvent.id);
+  private getSyncInfoDetails(garoonEvent: GaroonEvent): SyncInfoDetails {
+    const payloadHash = this.hashPayload(garoonEvent);
 
-    if (!syncInfo) {
-      // 新規イベント
-      await this.createGoogleEvent(garoonEvent);
-    } else if (syncInfo.garoonUpdatedAt !== garoonEvent.updatedAt) {
-      // 更新されたイベント
-      await this.updateGoogleEvent(garoonEvent, syncInfo.googleEventId);
-    } else {
-      // 変更なし
-      this.db.logSync('UNCHANGED', garoonEvent.id, syncInfo.googleEventId);
+    // 仮予定はすべての候補日時を含む期間を対象期間とし、2番目以降の候補のイベントIDを記録する
+    if (isTemporaryEvent(garoonEvent)) {
+      const period = getTemporaryEventPeriod(garoonEvent);
+      const candidateEventIds = expandTemporaryCandidates(garoonEvent)
+        .slice(1)
+        .map((_, index) =>
+          getCandidateEventId(garoonEvent.id, this.route.name, index + 1)
+        );
+      return {
+        eventStart: period.start,
+        eventEnd: period.end,
+        payloadHash,
+        candidateEventIds,
+        recurring: false,
+      };
     }
+
+    // 繰り返しイベントは繰り返し期間の最終日までを対象期間とする
+    if (garoonEvent.repeatInfo) {
+      return {
+        eventStart: garoonEvent.start.dateTime,
+        eventEnd: `${garoonEvent.repeatInfo.period.end}T23:59:59${getUtcOffset(
+          garoonEvent.start.dateTime
+        )}`,
+        payloadHash,
+        recurring: true,
+      };
+    }
+
+    return {
+      eventStart: garoonEvent.start.dateTime,
+      eventEnd: garoonEvent.end.dateTime,
+      payloadHash,
+      recurring: false,
+    };
   }
 
   /**
-   * Google Calendarにイベントを作成
-   * @param garoonEvent ガルーンイベント
+   * 安全確認に該当した削除を保留し、承認待ちとして記録・通知する
+   * 前回から同じ削除を保留し続けている場合は、定期実行のたびに通知しないよう記録・通知を省略する
+   * @param removedEvents 削除対象の同期済みイベント
+   * @param reasons 保留した理由
    */
-  private async createGoogleEvent(garoonEvent: GaroonEvent): Promise<void> {
-    try {
-      // ガルーンイベントをGoogleイベント形式に変換
-      const googleEvent = this.convertToGoogleEvent(garoonEvent);
+  private async holdDeletions(
+    removedEvents: SyncedEventInfo[],
+    reasons: string[]
+  ): Promise<void> {
+    console.warn(
+      `${removedEvents.length}件の削除を保留しました: ${reasons.join(' / ')}`
+    );
 
-      // Googleカレンダーに作成
-      const eventId = await this.googleCalendar.createEvent(googleEvent);
+    if (this.plan) {
+      this.plan.deletionBlockedReasons = reasons;
+      return;
+    }
 
-      // 同期情報を保存
-      this.db.saveSyncInfo(garoonEvent.id, eventId, garoonEvent.updatedAt);
-      this.db.logSync('CREATE', garoonEvent.id, eventId);
+    const pending = this.db.getPendingDeletions(this.route.name);
+    if (isSameDeletions(pending, removedEvents)) {
+      return;
+    }
 
-      this.syncStats.added++;
-    } catch (error) {
-      throw new Error(
-        `イベント作成エラー (${garoonEvent.id}): ${
-          error instanceof Error ? error.message : String(error)
-        }`
+    const detectedAt = new Date().toISOString();
+    this.db.setPendingDeletions(
+      removedEvents.map((e) => ({
+        garoonEventId: e.garoonEventId,
+        googleEventId: e.googleEventId,
+        detectedAt,
+        reasons,
+      })),
+      this.route.name
+    );
+    for (const e of removedEvents) {
+      this.db.logSync(
+        'DELETE_BLOCKED',
+        e.garoonEventId,
+        e.googleEventId,
+        reasons.join(' / ')
       );
     }
+
+    await this.notification.sendDeletionBlockedNotification(
+      reasons,
+      removedEvents
+    );
   }
 
   /**
-   * Garoonから削除されたイベントをGoogle Calendarから削除
-   * @param currentGaroonEventIds 現在のガルーンイベントIDのセット
+   * 削除予定のイベントを計画に記録
+   * @param garoonEventId ガルーンイベントID
+   * @param googleEventId GoogleイベントID
    */
-  private async deleteRemovedEvents(
-    currentGaroonEventIds: Set<string>
+  private async planDeletion(
+    garoonEventId: string,
+    googleEventId: string
   ): Promise<void> {
-    // データベースから全ての同期済みイベントを取得
-    const syncedEvents = this.db.getAllSyncedEvents();
+    // 削除対象の内容を表示するため既存イベントを参照する（読み取りのみ）
+    const existingEvent = await this.route.calendar
+      .getEvent(googleEventId)
+      .catch(() => null);
 
-    for (const syncedEvent of syncedEvents) {
-      // garoonEventIdがnullの場合はスキップ（不正なレコードをクリーンアップ）
-      if (!syncedEvent.garoonEventId) {
-        this.db.deleteSyncInfoByGoogleEventId(syncedEvent.googleEventId);
-        continue;
-      }
+    this.addPlanAction({
+      type: 'DELETE',
+      garoonEventId,
+      googleEventId,
+      summary: existingEvent?.summary || '',
+      diffs: diffGoogleEvents(existingEvent, null),
+    });
+    this.syncStats.deleted++;
+  }
 
-      // ガルーンに存在しないイベントを検出
-      if (!currentGaroonEventIds.has(syncedEvent.garoonEventId)) {
-        try {
-          // Google Calendarから削除
-          await this.googleCalendar.deleteEvent(syncedEvent.googleEventId);
+  /**
+   * 計画に変更予定を追加（複数ルートの場合はルート名を付与）
+   * @param action 変更予定
+   */
+  private addPlanAction(action: SyncPlanAction): void {
+    if (!this.plan) {
+      return;
+    }
+    this.plan.actions.push(
+      this.route.name === DEFAULT_ROUTE
+        ? action
+        : { ...action, route: this.route.name }
+    );
+  }
 
-          // 同期情報を削除
-          this.db.deleteSyncInfo(syncedEvent.garoonEventId);
-          this.db.logSync(
-            'DELETE',
-            syncedEvent.garoonEventId,
-            syncedEvent.googleEventId
-          );
+  /**
+   * 同期ログを記録（計画モードでは記録しない）
+   * @param action 実行したアクション
+   * @param garoonEventId ガルーンイベントID（任意）
+   * @param googleEventId GoogleイベントID（任意）
+   * @param details 詳細情報（任意）
+   */
+  private logSync(
+    action: string,
+    garoonEventId?: string,
+    googleEventId?: string,
+    details?: string
+  ): void {
+    if (this.plan) {
+      return;
+    }
+    this.db.logSync(action, garoonEventId, googleEventId, details);
+  }
 
-          this.syncStats.deleted++;
-          console.log(
-            `イベントを削除しました: Garoon=${syncedEvent.garoonEventId}, Google=${syncedEvent.googleEventId}`
-          );
-        } catch (error) {
-          // 既に削除済みの場合はエラーを無視して同期情報のみ削除
-          const isAlreadyDeleted =
-            error instanceof Error &&
-            (error.message.includes('404') ||
-              error.message.includes('Resource has been deleted'));
-          if (isAlreadyDeleted) {
-            this.db.deleteSyncInfo(syncedEvent.garoonEventId);
-            this.db.logSync(
-              'DELETE',
-              syncedEvent.garoonEventId,
-              syncedEvent.googleEventId,
-              'Google側で既に削除済み'
-            );
-            this.syncStats.deleted++;
-          } else {
-            this.syncStats.errors++;
-            console.error(
-              `イベント削除エラー (Garoon=${syncedEvent.garoonEventId}):`,
-              error
-            );
-            this.db.logSync(
-              'ERROR',
-              syncedEvent.garoonEventId,
-              syncedEvent.googleEventId,
-              error instanceof Error ? error.message : String(error)
-            );
-          }
-        }
-      }
+  /**
+   * 同期情報のGoogleイベントを取得
+   * 見つからない場合は、同じガルーンイベントから同期した別のIDのイベントを探して引き継ぐ
+   * （データベースの再構築・復元前に作成されたイベントを重複して作成しないため）
+   * @param garoonEventId ガルーンイベントID
+   * @param googleEventId 同期情報のGoogleイベントID
+   * @returns 既存のイベント（見つからない場合はnull）
+   */
+  private async findExistingEvent(
+    garoonEventId: string,
+    googleEventId: string
+  ): Promise<GoogleEvent | null> {
+    const existingEvent = await this.route.calendar.getEvent(googleEventId);
+    if (existingEvent) {
+      return existingEvent;
+    }
+
+    const synced = await this.route.calendar.listSyncedEvents(garoonEventId);
+    const adopted = synced.find(
+      (event) =>
+        event.id && event.status !== 'cancelled' && !event.recurringEventId
+    );
+    if (adopted) {
+      console.log(
+        `${this.routeLabel()}同期済みのイベントを引き継ぎます: ${googleEventId} -> ${adopted.id}`
+      );
     }
+    return adopted || null;
   }
 
   /**
@@ -277,30 +1642,72 @@ export class SyncService {
   ): Promise<void> {
     try {
       // イベントが存在するか確認
-      const existingEvent = await this.googleCalendar.getEvent(googleEventId);
+      const existingEvent = await this.findExistingEvent(
+        garoonEvent.id,
+        googleEventId
+      );
 
       if (!existingEvent) {
         // イベントが存在しない場合は作成
         await this.createGoogleEvent(garoonEvent);
         return;
       }
+      const eventId = existingEvent.id as string;
 
       // ガルーンイベントをGoogleイベント形式に変換
       const googleEvent = this.convertToGoogleEvent(garoonEvent);
 
       // イベントIDを設定
-      googleEvent.id = googleEventId;
+      googleEvent.id = eventId;
+
+      // 参加者の出欠の回答は更新で失われないよう引き継ぐ
+      this.keepAttendeeResponses(googleEvent, existingEvent);
+
+      // 仮予定の候補日時から確定した予定は「仮」の状態を解除する
+      if (existingEvent.status === 'tentative') {
+        googleEvent.status = 'confirmed';
+      }
+
+      // 計画モードでは既存イベントとの差分を記録するのみ
+      if (this.plan) {
+        this.addPlanAction({
+          type: 'UPDATE',
+          garoonEventId: garoonEvent.id,
+          googleEventId: eventId,
+          summary: googleEvent.summary,
+          diffs: diffGoogleEvents(existingEvent, googleEvent),
+        });
+        this.syncStats.updated++;
+        return;
+      }
+
+      // イベントの種類は更新で変更できないため、種類が変わった場合は作成し直す
+      const previousType = existingEvent.eventType || 'default';
+      const nextType = googleEvent.eventType || 'default';
+      if (previousType !== nextType) {
+        await this.recreateGoogleEvent(
+          garoonEvent,
+          googleEvent,
+          eventId,
+          `イベントの種類を変更: ${previousType} -> ${nextType}`
+        );
+        return;
+      }
 
       // Googleカレンダーで更新
-      await this.googleCalendar.updateEvent(googleEventId, googleEvent);
+      await this.route.calendar.updateEvent(eventId, googleEvent);
 
       // 同期情報を更新
       this.db.saveSyncInfo(
         garoonEvent.id,
-        googleEventId,
-        garoonEvent.updatedAt
+        eventId,
+        garoonEvent.updatedAt,
+        this.getSyncInfoDetails(garoonEvent),
+        this.route.name
       );
-      this.db.logSync('UPDATE', garoonEvent.id, googleEventId);
+      // 繰り返しイベントの更新で回ごとの変更が失われるため、再反映の対象にする
+      this.db.clearInstanceInfo(garoonEvent.id, this.route.name);
+      this.db.logSync('UPDATE', garoonEvent.id, eventId);
 
       this.syncStats.updated++;
     } catch (error) {
@@ -313,22 +1720,190 @@ export class SyncService {
   }
 
   /**
-   * ガルーンイベントをGoogleイベント形式に変換
+   * 仮予定を候補日時ごとの「仮」のGoogleイベントとして作成・更新
+   * 候補が減った場合と、元のイベントが候補のIDと異なる場合は不要になったイベントを削除する
+   * @param garoonEvent 仮予定のガルーンイベント
+   * @param syncInfo 同期情報（新規の場合はnull）
+   */
+  private async syncCandidateEvents(
+    garoonEvent: GaroonEvent,
+    syncInfo: SyncedEventInfo | null
+  ): Promise<void> {
+    try {
+      const candidates = this.convertToCandidateEvents(garoonEvent);
+      const candidateIds = candidates.map((e) => e.id as string);
+      const previousIds = syncInfo
+        ? [syncInfo.googleEventId, ...(syncInfo.candidateEventIds || [])]
+        : [];
+
+      for (const candidate of candidates) {
+        const eventId = candidate.id as string;
+        const existingEvent = previousIds.includes(eventId)
+          ? await this.route.calendar.getEvent(eventId)
+          : null;
+        if (existingEvent) {
+          this.keepAttendeeResponses(candidate, existingEvent);
+        }
+
+        // 計画モードでは候補ごとの変更予定として記録するのみ
+        if (this.plan) {
+          this.addPlanAction({
+            type: existingEvent ? 'UPDATE' : 'CREATE',
+            garoonEventId: garoonEvent.id,
+            googleEventId: eventId,
+            summary: candidate.summary,
+            diffs: diffGoogleEvents(existingEvent, candidate),
+          });
+          continue;
+        }
+
+        if (existingEvent) {
+          await this.route.calendar.updateEvent(eventId, candidate);
+        } else {
+          await this.route.calendar.createEvent(candidate);
+        }
+      }
+
+      await this.deleteCandidateEvents(
+        garoonEvent.id,
+        previousIds.filter((id) => !candidateIds.includes(id))
+      );
+
+      if (syncInfo) {
+        this.syncStats.updated++;
+      } else {
+        this.syncStats.added++;
+      }
+      if (this.plan) {
+        return;
+      }
+
+      this.db.saveSyncInfo(
+        garoonEvent.id,
+        candidateIds[0],
+        garoonEvent.updatedAt,
+        this.getSyncInfoDetails(garoonEvent),
+        this.route.name
+      );
+      this.db.clearInstanceInfo(garoonEvent.id, this.route.name);
+      this.db.logSync(
+        syncInfo ? 'UPDATE' : 'CREATE',
+        garoonEvent.id,
+        candidateIds[0],
+        `仮予定の候補${candidates.length}件`
+      );
+    } catch (error) {
+      throw new Error(
+        `仮予定の同期エラー (${garoonEvent.id}): ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * 仮予定の候補日時のGoogleイベントを削除（計画モードでは削除予定として記録）
+   * @param garoonEventId ガルーンイベントID
+   * @param eventIds 削除するGoogleイベントID
+   */
+  private async deleteCandidateEvents(
+    garoonEventId: string,
+    eventIds: string[] = []
+  ): Promise<void> {
+    for (const eventId of eventIds) {
+      if (this.plan) {
+        await this.planDeletion(garoonEventId, eventId);
+        continue;
+      }
+
+      try {
+        await this.route.calendar.deleteEvent(eventId);
+      } catch (error) {
+        if (!this.isAlreadyDeletedError(error)) {
+          throw error;
+        }
+      }
+      this.db.logSync(
+        'DELETE',
+        garoonEventId,
+        eventId,
+        '仮予定の候補を削除'
+      );
+      this.syncStats.deleted++;
+    }
+  }
+
+  /**
+   * 既存のGoogleイベントの参加者の出欠の回答を引き継ぐ
+   * @param googleEvent 更新するGoogleイベント
+   * @param existingEvent 既存のGoogleイベント
+   */
+  private keepAttendeeResponses(
+    googleEvent: GoogleEvent,
+    existingEvent: GoogleEvent
+  ): void {
+    if (!googleEvent.attendees || !existingEvent.attendees) {
+      return;
+    }
+    const responses = new Map(
+      existingEvent.attendees.map((a) => [
+        a.email.toLowerCase(),
+        a.responseStatus,
+      ])
+    );
+    googleEvent.attendees = googleEvent.attendees.map((a) => ({
+      ...a,
+      responseStatus: responses.get(a.email.toLowerCase()),
+    }));
+  }
+
+  /**
+   * 終日イベントかどうかを判定
    * @param garoonEvent ガルーンイベント
-   * @returns Googleイベント
+   * @returns 終日イベントの場合true
    */
-  private convertToGoogleEvent(garoonEvent: GaroonEvent): GoogleEvent {
-    // 終日イベントの判定
+  private isAllDayEvent(garoonEvent: GaroonEvent): boolean {
     const startTime = garoonEvent.start.dateTime.split('T')[1] || '';
     const endTime = garoonEvent.end.dateTime.split('T')[1] || '';
     const hasNoTime =
       startTime.startsWith('00:00:00') &&
       (endTime.startsWith('00:00:00') || endTime.startsWith('23:59:59'));
 
-    const isAllDay =
+    return (
       garoonEvent.isAllDay ||
       garoonEvent.eventType === 'ALL_DAY' ||
-      hasNoTime;
+      hasNoTime
+    );
+  }
+
+  /**
+   * 内容を含まない「予定あり」として同期する予定か判定
+   * @param garoonEvent ガルーンイベント
+   * @returns 「予定あり」として同期する場合true
+   */
+  private isBusyPlaceholder(garoonEvent: GaroonEvent): boolean {
+    return this.privateEventMode === 'busy' && this.isPrivateEvent(garoonEvent);
+  }
+
+  /**
+   * 非公開の予定の同期方法を適用する予定か判定
+   * sync.privateEventsを指定した場合は公開先を限定した予定も含め、従来のexcludePrivateのみの場合は非公開の予定のみとする
+   * @param garoonEvent ガルーンイベント
+   * @returns 非公開の予定として扱う場合true
+   */
+  private isPrivateEvent(garoonEvent: GaroonEvent): boolean {
+    return this.config.sync.privateEvents
+      ? isRestrictedEvent(garoonEvent)
+      : garoonEvent.visibilityType === 'PRIVATE';
+  }
+
+  /**
+   * ガルーンイベントをGoogleイベント形式に変換
+   * @param garoonEvent ガルーンイベント
+   * @returns Googleイベント
+   */
+  private convertToGoogleEvent(garoonEvent: GaroonEvent): GoogleEvent {
+    const isAllDay = this.isAllDayEvent(garoonEvent);
 
     let start, end;
 
@@ -339,58 +1914,94 @@ export class SyncService {
       const endDateRaw = garoonEvent.end.dateTime.split('T')[0];
 
       // 終了日を翌日に設定
-      const endDateObj = new Date(endDateRaw);
-      endDateObj.setDate(endDateObj.getDate() + 1);
-      const endDate = endDateObj.toISOString().split('T')[0];
+      const endDate = addDays(endDateRaw, 1);
 
       start = { date: startDate };
       end = { date: endDate };
     } else {
       // 通常イベントの場合（設定からデフォルトタイムゾーンを使用）
-      const defaultTimeZone =
-        this.config.sync.defaultTimeZone || 'Asia/Tokyo';
-
       start = {
         dateTime: garoonEvent.start.dateTime,
-        timeZone: garoonEvent.start.timeZone || defaultTimeZone,
+        timeZone: garoonEvent.start.timeZone || this.timeZone,
       };
 
       end = {
         dateTime: garoonEvent.end.dateTime,
-        timeZone: garoonEvent.end.timeZone || defaultTimeZone,
+        timeZone: garoonEvent.end.timeZone || this.timeZone,
       };
     }
 
-    // 参加者情報は説明欄に含める（サービスアカウントはDomain-Wide Delegationなしでは参加者を招待できないため）
-    const attendeeNames = garoonEvent.attendees
-      .filter((a) => a.type === 'USER')
-      .map((a) => a.name)
-      .join(', ');
+    // 非公開の予定は時間帯のみを同期し、タイトル・メモ・参加者・場所は含めない
+    // 予定メニューが色などから推測されないよう、表示設定も適用しない
+    if (this.isBusyPlaceholder(garoonEvent)) {
+      const placeholder: GoogleEvent = {
+        summary: BUSY_PLACEHOLDER_SUMMARY,
+        description: '',
+        location: '',
+        start,
+        end,
+        visibility: 'private',
+        extendedProperties: {
+          private: {
+            garoonEventId: garoonEvent.id,
+            garoonUpdatedAt: garoonEvent.updatedAt,
+          },
+        },
+      };
+      return this.withRecurrence(placeholder, garoonEvent, isAllDay);
+    }
 
-    // 場所情報
-    const location = garoonEvent.location || '';
+    // 参加者情報は説明欄に含める（サービスアカウントはDomain-Wide Delegationなしでは参加者を招待できないため）
+    // 招待が有効な場合は、メールアドレスが分からない参加者のみ説明欄に含める
+    let attendees: GoogleAttendee[] = [];
+    let attendeeNames: string;
+    if (this.attendees) {
+      const resolver = this.attendees;
+      const result = buildAttendees(garoonEvent.attendees, (a) =>
+        resolver.resolve(a)
+      );
+      attendees = result.attendees;
+      attendeeNames = result.unresolvedNames.join(', ');
+    } else {
+      attendeeNames = garoonEvent.attendees
+        .filter((a) => a.type === 'USER')
+        .map((a) => a.name)
+        .join(', ');
+    }
 
-    // 説明 (メモ + 参加者情報)
-    let description = garoonEvent.notes || '';
-    if (attendeeNames) {
-      description += `\n\n参加者: ${attendeeNames}`;
+    // 予約した施設は対応するリソースカレンダーを参加者として追加
+    const resourceCalendars = this.config.sync.facilities?.resourceCalendars;
+    if (resourceCalendars) {
+      attendees = [
+        ...attendees,
+        ...buildResourceAttendees(
+          getEventFacilities(garoonEvent),
+          resourceCalendars
+        ),
+      ];
     }
-    description += '\n\n(ガルーンから同期)';
+
+    // タイトル・説明・場所はテンプレートから作成し、Google Calendarの上限に収める
+    const context = buildTemplateContext(
+      garoonEvent,
+      attendeeNames,
+      this.config.garoon.baseUrl
+    );
+    const render = (field: keyof EventTemplates) =>
+      truncateText(
+        renderTemplate(this.templates[field], context),
+        GOOGLE_FIELD_LIMITS[field]
+      );
 
     // 可視性
     const visibility =
       garoonEvent.visibilityType === 'PRIVATE' ? 'private' : 'default';
 
-    // タイトル（eventMenuがある場合は接頭辞として追加）
-    const summary = garoonEvent.eventMenu
-      ? `${garoonEvent.eventMenu}: ${garoonEvent.subject}`
-      : garoonEvent.subject;
-
     // Googleイベントオブジェクトの作成
     const googleEvent: GoogleEvent = {
-      summary,
-      description,
-      location,
+      summary: render('summary'),
+      description: render('description'),
+      location: render('location'),
       start,
       end,
       visibility,
@@ -402,9 +2013,142 @@ export class SyncService {
       },
     };
 
+    if (attendees.length > 0) {
+      googleEvent.attendees = attendees;
+    }
+
+    // 予定メニュー・予定の種類に応じた色・リマインダー・予定あり/なし・イベントの種類
+    if (this.config.sync.styles) {
+      applyEventStyle(
+        googleEvent,
+        resolveEventStyle(garoonEvent, this.config.sync.styles)
+      );
+    }
+    if (googleEvent.eventType) {
+      this.adaptStatusEvent(googleEvent, garoonEvent, context);
+    }
+
+    // Google側の編集を検出するため、書き戻し対象の項目のハッシュを記録
+    googleEvent.extendedProperties!.private!.garoonSyncedHash =
+      hashWriteBackValues(getWriteBackValues(googleEvent, garoonEvent.eventMenu));
+
+    return this.withRecurrence(googleEvent, garoonEvent, isAllDay);
+  }
+
+  /**
+   * 仮予定の候補日時ごとのGoogleイベントを作成
+   * 各候補は「仮」の状態とし、同じガルーンイベントIDと候補の番号を拡張プロパティに記録する
+   * @param garoonEvent 仮予定のガルーンイベント
+   * @returns 候補の順のGoogleイベント（IDを設定済み）
+   */
+  private convertToCandidateEvents(garoonEvent: GaroonEvent): GoogleEvent[] {
+    const candidates = expandTemporaryCandidates(garoonEvent);
+
+    return candidates.map((candidate, index) => {
+      const googleEvent = this.convertToGoogleEvent(candidate);
+      googleEvent.id = getCandidateEventId(
+        garoonEvent.id,
+        this.route.name,
+        index
+      );
+      googleEvent.status = 'tentative';
+      if (candidates.length > 1) {
+        googleEvent.summary = truncateText(
+          `${googleEvent.summary} (候補${index + 1}/${candidates.length})`,
+          GOOGLE_FIELD_LIMITS.summary
+        );
+      }
+      googleEvent.extendedProperties!.private!.garoonCandidateIndex =
+        String(index);
+      return googleEvent;
+    });
+  }
+
+  /**
+   * 不在・サイレント モードのイベントをGoogle Calendarの制約に合わせる
+   * 主カレンダー以外と繰り返し予定・仮予定は通常のイベントとして作成する
+   * 終日にできず参加者・場所も設定できないため、終日の予定はタイムゾーンの0時から翌日0時までとする
+   * @param googleEvent Googleイベント
+   * @param garoonEvent ガルーンイベント
+   * @param context テンプレートで参照できる値（辞退時のメッセージ用）
+   */
+  private adaptStatusEvent(
+    googleEvent: GoogleEvent,
+    garoonEvent: GaroonEvent,
+    context: TemplateContext
+  ): void {
+    if (
+      !this.route.primaryCalendar ||
+      garoonEvent.repeatInfo ||
+      isTemporaryEvent(garoonEvent)
+    ) {
+      delete googleEvent.eventType;
+      delete googleEvent.outOfOfficeProperties;
+      return;
+    }
+
+    if ('date' in googleEvent.start && 'date' in googleEvent.end) {
+      googleEvent.start = {
+        dateTime: startOfDay(googleEvent.start.date, this.timeZone),
+        timeZone: this.timeZone,
+      };
+      googleEvent.end = {
+        dateTime: startOfDay(googleEvent.end.date, this.timeZone),
+        timeZone: this.timeZone,
+      };
+    }
+    delete googleEvent.attendees;
+    delete googleEvent.transparency;
+    googleEvent.location = '';
+
+    const properties = googleEvent.outOfOfficeProperties;
+    if (properties?.declineMessage) {
+      properties.declineMessage = renderTemplate(
+        properties.declineMessage,
+        context
+      );
+    }
+  }
+
+  /**
+   * 繰り返し予定の場合は繰り返しルールを設定（1件の繰り返しイベントとして作成するため）
+   * @param googleEvent Googleイベント
+   * @param garoonEvent ガルーンイベント
+   * @param isAllDay 終日イベントかどうか
+   * @returns 繰り返しルールを設定したGoogleイベント
+   */
+  private withRecurrence(
+    googleEvent: GoogleEvent,
+    garoonEvent: GaroonEvent,
+    isAllDay: boolean
+  ): GoogleEvent {
+    if (garoonEvent.repeatInfo) {
+      const recurrence = buildRecurrence(
+        garoonEvent.repeatInfo,
+        this.getSeriesTimeZone(garoonEvent),
+        isAllDay
+      );
+      if (recurrence) {
+        googleEvent.recurrence = recurrence;
+      }
+    }
+
     return googleEvent;
   }
 
+  /**
+   * 繰り返し予定のタイムゾーンを取得（繰り返し条件・予定・設定の順に参照）
+   * @param garoonEvent 繰り返し予定のガルーンイベント
+   * @returns タイムゾーン（IANA形式）
+   */
+  private getSeriesTimeZone(garoonEvent: GaroonEvent): string {
+    return (
+      garoonEvent.repeatInfo?.timeZone ||
+      garoonEvent.start.timeZone ||
+      this.timeZone
+    );
+  }
+
   /**
    * 同期統計情報をリセット
    */
@@ -430,7 +2174,15 @@ export class SyncService {
    */
   async testConnections(): Promise<{ garoon: boolean; google: boolean }> {
     const garoonResult = await this.garoon.testConnection();
-    const googleResult = await this.googleCalendar.testConnection();
+
+    // 全ルートのカレンダーに接続できた場合のみ成功とする
+    let googleResult = true;
+    for (const route of this.routes) {
+      if (!(await route.calendar.testConnection())) {
+        console.error(`Google Calendarへの接続に失敗しました (ルート: ${route.name})`);
+        googleResult = false;
+      }
+    }
 
     return {
       garoon: garoonResult,
@@ -439,6 +2191,109 @@ export class SyncService {
   }
 }
 
+/**
+ * 設定から同期先ルートを作成
+ * ルートが設定されていない場合は全ターゲットをgoogle.calendarIdに同期する
+ * @param config 設定
+ * @returns 同期先ルートの配列
+ */
+export function createSyncRoutes(config: AppConfig): SyncRoute[] {
+  // 参加者を招待する場合のみ通知範囲の設定を使用する
+  const sendUpdates = config.sync.attendees?.invite
+    ? config.sync.attendees.sendUpdates
+    : 'none';
+
+  if (!config.google.routes || config.google.routes.length === 0) {
+    return [
+      {
+        name: DEFAULT_ROUTE,
+        calendar: new GoogleCalendarClient({
+          ...config.google,
+          sendUpdates,
+          timeZone: config.sync.defaultTimeZone,
+        }),
+        primaryCalendar: isImpersonatedPrimary(
+          config.google.calendarId,
+          config.google.subject
+        ),
+      },
+    ];
+  }
+
+  return config.google.routes.map((route) => {
+    const subject = route.subject || config.google.subject;
+    return {
+      name: route.name,
+      calendar: new GoogleCalendarClient({
+        ...config.google,
+        calendarId: route.calendarId,
+        credentials: route.credentials || config.google.credentials,
+        subject,
+        sendUpdates,
+        timeZone: config.sync.defaultTimeZone,
+      }),
+      targets: route.targets,
+      primaryCalendar: isImpersonatedPrimary(route.calendarId, subject),
+    };
+  });
+}
+
+/**
+ * 同期先が代理するユーザーの主カレンダーか判定
+ * @param calendarId カレンダーID
+ * @param subject Domain-Wide Delegationで代理するユーザー
+ * @returns 主カレンダーの場合true
+ */
+function isImpersonatedPrimary(calendarId: string, subject?: string): boolean {
+  if (!subject) {
+    return false;
+  }
+  return (
+    calendarId === 'primary' ||
+    calendarId.toLowerCase() === subject.toLowerCase()
+  );
+}
+
+/**
+ * 保留中の削除と同じイベントの組み合わせか判定
+ * @param pending 保留中の削除
+ * @param removedEvents 今回の削除対象の同期済みイベント
+ * @returns 同じイベントの組み合わせの場合true
+ */
+function isSameDeletions(
+  pending: PendingDeletion[],
+  removedEvents: SyncedEventInfo[]
+): boolean {
+  const toKey = (e: { garoonEventId: string; googleEventId: string }) =>
+    `${e.garoonEventId}:${e.googleEventId}`;
+  const pendingKeys = new Set(pending.map(toKey));
+  return (
+    pendingKeys.size === removedEvents.length &&
+    removedEvents.every((e) => pendingKeys.has(toKey(e)))
+  );
+}
+
+/**
+ * 閲覧者が限定された予定（非公開・公開先を限定した予定）か判定
+ * @param garoonEvent ガルーンイベント
+ * @returns 閲覧者が限定されている場合true
+ */
+function isRestrictedEvent(garoonEvent: GaroonEvent): boolean {
+  return (
+    garoonEvent.visibilityType === 'PRIVATE' ||
+    garoonEvent.visibilityType === 'SET_PRIVATE_WATCHERS'
+  );
+}
+
+/**
+ * ガルーンの時刻をHH:MM:SS形式に揃える
+ * @param time 時刻 (HH:MM または HH:MM:SS)
+ * @returns HH:MM:SS形式の時刻
+ */
+function normalizeTime(time: string): string {
+  return time.length === 5 ? `${time}:00` : time;
+}
+
 /**
  * 設定を読み込んで同期サービスを作成
  * @param configPath 設定ファイルのパス（省略可）
@@ -454,12 +2309,32 @@ export function createSyncService(configPath?: string): SyncService {
  * @param configPath 設定ファイルのパス（省略可）
  * @param startDate 開始日 (YYYY-MM-DD)（省略可）
  * @param endDate 終了日 (YYYY-MM-DD)（省略可）
+ * @param options 同期オプション（省略可）
  */
 export async function syncEvents(
   configPath?: string,
   startDate?: string,
-  endDate?: string
+  endDate?: string,
+  options: SyncOptions = {}
 ): Promise<void> {
   const service = createSyncService(configPath);
-  await service.syncEvents(startDate, endDate);
+  await service.syncEvents(startDate, endDate, options);
+}
+
+/**
+ * 同期の計画を作成する関数（dry-run）
+ * @param configPath 設定ファイルのパス（省略可）
+ * @param startDate 開始日 (YYYY-MM-DD)（省略可）
+ * @param endDate 終了日 (YYYY-MM-DD)（省略可）
+ * @param options 同期オプション（省略可）
+ * @returns 同期計画
+ */
+export async function planSync(
+  configPath?: string,
+  startDate?: string,
+  endDate?: string,
+  options: SyncOptions = {}
+): Promise<SyncPlan> {
+  const service = createSyncService(configPath);
+  return service.planSync(startDate, endDate, options);
 }
@@ -0,0 +1,132 @@
+// Google側で編集された内容のガルーンへの書き戻し
+
+import crypto from 'crypto';
+import { ConflictPolicy, WriteBackField } from '../types/config';
+import { GaroonEventUpdate } from '../types/garoon';
+import { GoogleEvent } from '../types/google';
+import { SyncFieldDiff } from '../types/sync';
+
+// 書き戻し対象の項目（比較用に正規化した値）
+export type WriteBackValues = Record<WriteBackField, string>;
+
+const WRITE_BACK_FIELDS: WriteBackField[] = [
+  'subject',
+  'start',
+  'end',
+  'location',
+];
+
+/**
+ * 開始・終了日時を比較用に正規化
+ * @param time Googleイベントの開始または終了
+ * @returns 終日の場合は日付、それ以外はエポックミリ秒の文字列
+ */
+function normalizeTime(time: GoogleEvent['start']): string {
+  if ('date' in time) {
+    return time.date;
+  }
+  const epoch = Date.parse(time.dateTime);
+  return isNaN(epoch) ? time.dateTime : String(epoch);
+}
+
+/**
+ * Googleイベントから書き戻し対象の項目を取り出す
+ * @param event Googleイベント
+ * @param eventMenu ガルーンの予定メニュー（タイトルの接頭辞を取り除くため）
+ * @returns 書き戻し対象の項目
+ */
+export function getWriteBackValues(
+  event: GoogleEvent,
+  eventMenu?: string
+): WriteBackValues {
+  const prefix = eventMenu ? `${eventMenu}: ` : '';
+  const subject =
+    prefix && event.summary.startsWith(prefix)
+      ? event.summary.slice(prefix.length)
+      : event.summary;
+
+  return {
+    subject,
+    start: normalizeTime(event.start),
+    end: normalizeTime(event.end),
+    location: event.location || '',
+  };
+}
+
+/**
+ * 書き戻し対象の項目のハッシュを計算
+ * @param values 書き戻し対象の項目
+ * @returns SHA-256ハッシュ（16進数）
+ */
+export function hashWriteBackValues(values: WriteBackValues): string {
+  const payload = JSON.stringify(WRITE_BACK_FIELDS.map((f) => values[f]));
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Google側の編集内容からガルーンの更新内容を作成
+ * 終日イベントの日付はガルーンの日時形式に変換できないため書き戻さない
+ * @param googleEvent Google側で編集されたイベント
+ * @param garoonValues ガルーンの現在の内容（Googleイベント形式に変換したもの）
+ * @param fields 書き戻しを許可する項目
+ * @param eventMenu ガルーンの予定メニュー
+ * @returns ガルーンの更新内容と差分（書き戻す項目がない場合は差分が空）
+ */
+export function buildGaroonUpdate(
+  googleEvent: GoogleEvent,
+  garoonValues: WriteBackValues,
+  fields: WriteBackField[],
+  eventMenu?: string
+): { update: GaroonEventUpdate; diffs: SyncFieldDiff[] } {
+  const googleValues = getWriteBackValues(googleEvent, eventMenu);
+  const update: GaroonEventUpdate = {};
+  const diffs: SyncFieldDiff[] = [];
+
+  for (const field of fields) {
+    if (googleValues[field] === garoonValues[field]) {
+      continue;
+    }
+
+    if (field === 'start' || field === 'end') {
+      const time = googleEvent[field];
+      if ('date' in time) {
+        continue;
+      }
+      update[field] = { dateTime: time.dateTime, timeZone: time.timeZone };
+      diffs.push({ field, after: time.dateTime });
+    } else {
+      update[field] = googleValues[field];
+      diffs.push({
+        field,
+        before: garoonValues[field] || undefined,
+        after: googleValues[field] || undefined,
+      });
+    }
+  }
+
+  return { update, diffs };
+}
+
+/**
+ * ガルーンとGoogleの両方で変更された場合に優先する側を決定
+ * @param policy 解決方針
+ * @param garoonUpdatedAt ガルーンの最終更新日時
+ * @param googleUpdatedAt Googleの最終更新日時
+ * @returns 優先する側（reviewの場合は確認を依頼）
+ */
+export function resolveConflict(
+  policy: ConflictPolicy,
+  garoonUpdatedAt: string,
+  googleUpdatedAt?: string
+): 'garoon' | 'google' | 'review' {
+  if (policy !== 'newest') {
+    return policy;
+  }
+
+  const garoonTime = Date.parse(garoonUpdatedAt);
+  const googleTime = googleUpdatedAt ? Date.parse(googleUpdatedAt) : NaN;
+  if (isNaN(googleTime)) {
+    return 'garoon';
+  }
+  return googleTime > garoonTime ? 'google' : 'garoon';
+}
@@ -1,56 +1,156 @@
 import { google } from 'googleapis';
-import readline from 'readline';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
 import dotenv from 'dotenv';
+import { writeFileAtomic } from '../common/fileUtils';
+import { CALENDAR_SCOPE, createGoogleAuth } from '../google/auth';
 
 // .envファイルを読み込む
 dotenv.config();
 
-const clientId = process.env.GOOGLE_CLIENT_ID;
-const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
-const redirectUri = 'urn:ietf:wg:oauth:2.0:oob';
+// 認可を待つ最大時間
+const AUTH_TIMEOUT_MS = 5 * 60 * 1000;
 
-if (!clientId || !clientSecret) {
-  console.error('環境変数 GOOGLE_CLIENT_ID または GOOGLE_CLIENT_SECRET が設定されていません');
-  process.exit(1);
+/**
+ * ループバックアドレスで認可のリダイレクトを1回だけ受け付ける
+ * @param server 待ち受け中のHTTPサーバー
+ * @param expectedState 認可URLに含めたstate
+ * @returns 認可コード
+ */
+function waitForAuthorizationCode(
+  server: http.Server,
+  expectedState: string
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error('認可がタイムアウトしました。もう一度実行してください'));
+    }, AUTH_TIMEOUT_MS);
+
+    server.on('request', (req, res) => {
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+      // ブラウザが要求するfavicon等は無視する
+      if (url.pathname !== '/') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const state = url.searchParams.get('state');
+      const code = url.searchParams.get('code');
+      const error = url.searchParams.get('error');
+
+      // stateが一致しない要求は認可のリダイレクトではないため、拒否して待ち続ける
+      if (state !== expectedState) {
+        res
+          .writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' })
+          .end('stateが一致しません。');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+      clearTimeout(timer);
+
+      if (error || !code) {
+        res.end('認可されませんでした。ターミナルを確認してください。');
+        reject(new Error(`認可されませんでした: ${error || '認可コードがありません'}`));
+      } else {
+        res.end('認可が完了しました。このウィンドウを閉じてターミナルに戻ってください。');
+        resolve(code);
+      }
+    });
+  });
 }
 
-const oAuth2Client = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
+/**
+ * 保存した認証情報でカレンダー一覧を取得できることを確認
+ * @param credentialsPath 認証情報ファイルのパス
+ */
+async function verifyCredentials(credentialsPath: string): Promise<void> {
+  const { auth } = createGoogleAuth(credentialsPath);
+  const calendar = google.calendar({ version: 'v3', auth });
+  const response = await calendar.calendarList.list({ maxResults: 10 });
+  const calendars = response.data.items || [];
+
+  console.log(`\n認証情報を確認しました。アクセスできるカレンダー (${calendars.length}件):`);
+  calendars.forEach((cal) => console.log(`- ${cal.summary} (ID: ${cal.id})`));
+}
 
-const SCOPES = ['https://www.googleapis.com/auth/calendar'];
+async function main() {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
 
-const authUrl = oAuth2Client.generateAuthUrl({
-  access_type: 'offline',
-  scope: SCOPES,
-  prompt: 'consent'  // 毎回同意画面を表示
-});
+  if (!clientId || !clientSecret) {
+    console.error('環境変数 GOOGLE_CLIENT_ID または GOOGLE_CLIENT_SECRET が設定されていません');
+    process.exit(1);
+  }
 
-console.log('このURLにアクセスして認可コードを取得してください:\n', authUrl);
-console.log('\n認可コードを取得したら、コピーして貼り付けてください。');
+  // 保存先（--out=で変更可能）
+  const outArg = process.argv.find((arg) => arg.startsWith('--out='));
+  const credentialsPath = path.resolve(
+    process.cwd(),
+    outArg ? outArg.split('=')[1] : 'credentials/google-credentials.json'
+  );
 
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout,
-});
+  // ループバックアドレスの空いているポートで待ち受ける
+  const server = http.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+  const redirectUri = `http://127.0.0.1:${port}`;
 
-rl.question('認可コードを入力してください: ', async (code) => {
-  rl.close();
   try {
-    const { tokens } = await oAuth2Client.getToken(code);
-    console.log('\n取得したトークン情報:');
-    console.log(JSON.stringify(tokens, null, 2));
+    const oAuth2Client = new OAuth2Client(clientId, clientSecret, redirectUri);
+
+    // PKCEとstateで認可コードの横取り・CSRFを防ぐ
+    const { codeVerifier, codeChallenge } =
+      await oAuth2Client.generateCodeVerifierAsync();
+    const state = crypto.randomBytes(16).toString('hex');
+
+    const authUrl = oAuth2Client.generateAuthUrl({
+      access_type: 'offline',
+      scope: [CALENDAR_SCOPE],
+      prompt: 'consent', // リフレッシュトークンを確実に発行させるため毎回同意画面を表示
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256,
+    });
+
+    console.log('ブラウザで次のURLにアクセスして認可してください:\n', authUrl);
+    console.log(`\n${redirectUri} でリダイレクトを待っています...`);
+
+    const code = await waitForAuthorizationCode(server, state);
+    const { tokens } = await oAuth2Client.getToken({ code, codeVerifier });
 
-    // google-credentials.jsonの形式で出力
+    if (!tokens.refresh_token) {
+      throw new Error(
+        'リフレッシュトークンが発行されませんでした。Googleアカウントの「サードパーティのアクセス」からアクセス権を削除して再実行してください'
+      );
+    }
+
+    // 所有者のみ読み書きできるパーミッションで保存
     const credentials = {
+      type: 'authorized_user',
       client_id: clientId,
       client_secret: clientSecret,
-      redirect_uris: [redirectUri],
-      refresh_token: tokens.refresh_token
+      refresh_token: tokens.refresh_token,
+      access_token: tokens.access_token,
+      expiry_date: tokens.expiry_date,
     };
+    fs.mkdirSync(path.dirname(credentialsPath), { recursive: true });
+    writeFileAtomic(credentialsPath, JSON.stringify(credentials, null, 2), 0o600);
+    console.log(`\n認証情報を保存しました: ${credentialsPath}`);
 
-    console.log('\ncredentials/google-credentials.jsonとして保存する内容:');
-    console.log(JSON.stringify(credentials, null, 2));
+    await verifyCredentials(credentialsPath);
   } catch (error) {
     console.error('トークンの取得に失敗しました:', error);
-    process.exit(1);
+    process.exitCode = 1;
+  } finally {
+    // ブラウザのkeep-alive接続が残っていても終了できるよう、接続ごと閉じる
+    server.closeAllConnections();
+    server.close();
   }
-});
+}
+
+main();
@@ -1,30 +1,24 @@
 import { google } from 'googleapis';
 import dotenv from 'dotenv';
-import fs from 'fs';
 import path from 'path';
+import { createGoogleAuth } from '../google/auth';
 
 // .envファイルを読み込む
 dotenv.config();
 
 async function main() {
   try {
-    // 認証情報の読み込み
+    // 認証情報の読み込み（サービスアカウント / OAuthを自動判定）
     const credentialsPath = path.resolve(process.cwd(), 'credentials/google-credentials.json');
-    const credentials = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
-
-    // OAuth2クライアントの初期化
-    const oauth2Client = new google.auth.OAuth2(
-      credentials.client_id,
-      credentials.client_secret,
-      credentials.redirect_uris[0]
-    );
-
-    oauth2Client.setCredentials({
-      refresh_token: credentials.refresh_token
+    const { auth } = createGoogleAuth(credentialsPath, {
+      oauth: {
+        clientId: process.env.GOOGLE_CLIENT_ID || '',
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+      },
     });
 
     // カレンダーAPIの初期化
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+    const calendar = google.calendar({ version: 'v3', auth });
 
     // カレンダー一覧の取得
     const response = await calendar.calendarList.list();
@@ -0,0 +1,154 @@
+// 同期データベースの再構築スクリプト
+// Googleイベントの拡張プロパティ（garoonEventId / garoonUpdatedAt）から同期情報を復元する
+
+import path from 'path';
+import readline from 'readline';
+import { loadConfig, validateConfig } from '../common/config';
+import { SyncDatabase } from '../common/database';
+import { RunLock } from '../common/runLock';
+import { createSyncRoutes } from '../google/sync';
+import { rebuildMappings } from '../google/rebuild';
+
+/**
+ * ユーザーに確認する
+ * @param question 質問
+ * @returns yと回答した場合true
+ */
+function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) => {
+    rl.question(`${question} (y/N): `, (answer) => {
+      rl.close();
+      resolve(answer.trim().toLowerCase() === 'y');
+    });
+  });
+}
+
+async function main(): Promise<void> {
+  const configArg = process.argv.find((arg) => arg.startsWith('--config='));
+  const configPath = configArg ? configArg.split('=')[1] : undefined;
+
+  // 確認のみ（データベースとGoogle Calendarを変更しない）
+  const dryRun = process.argv.includes('--dry-run');
+  // 確認を省略する
+  const yes = process.argv.includes('--yes');
+
+  const config = loadConfig(configPath);
+  validateConfig(config);
+  // 同期処理と同時に同期情報を更新しないよう排他制御する
+  const lock = new RunLock(
+    path.join(path.dirname(config.database.path), 'sync.lock')
+  );
+  if (!lock.tryAcquire()) {
+    const holder = lock.readHolder();
+    throw new Error(
+      `同期処理が実行中のため再構築できません${
+        holder ? ` (PID: ${holder.pid}, 開始: ${holder.startedAt})` : ''
+      }`
+    );
+  }
+
+  const db = new SyncDatabase(config);
+  try {
+    for (const route of createSyncRoutes(config)) {
+      console.log(`\n========== ルート: ${route.name} ==========`);
+
+      const events = await route.calendar.listSyncedEvents();
+      const { mappings, duplicates } = rebuildMappings(events);
+      console.log(
+        `Google Calendarの${events.length}件のイベントから${mappings.length}件の同期情報を再構築しました`
+      );
+
+      const existing = db.getAllSyncedEvents(route.name).length;
+      if (existing > 0) {
+        console.log(
+          `データベースには既に${existing}件の同期情報があります。同じガルーンイベントの同期情報は上書きされます`
+        );
+      }
+
+      if (!dryRun && mappings.length > 0) {
+        if (yes || (await confirm('同期情報をデータベースに保存しますか?'))) {
+          for (const mapping of mappings) {
+            db.saveSyncInfo(
+              mapping.garoonEventId,
+              mapping.googleEventId,
+              mapping.garoonUpdatedAt,
+              {
+                eventStart: mapping.eventStart,
+                eventEnd: mapping.eventEnd,
+                candidateEventIds: mapping.candidateEventIds,
+                recurring: mapping.recurring,
+              },
+              route.name
+            );
+          }
+          db.logSync(
+            'REBUILD',
+            undefined,
+            undefined,
+            `${route.name}: ${mappings.length}件`
+          );
+          console.log('同期情報を保存しました');
+        }
+      }
+
+      if (duplicates.length === 0) {
+        console.log('重複したイベントはありません');
+        continue;
+      }
+
+      const extras = duplicates.flatMap((d) => d.extras);
+      console.log(
+        `\n${duplicates.length}件のガルーンイベントに重複したGoogleイベントがあります:`
+      );
+      for (const duplicate of duplicates) {
+        const extraIds = duplicate.extras.map((e) => e.id).join(', ');
+        console.log(
+          `- Garoon=${duplicate.garoonEventId} ${duplicate.kept.summary} (残す: ${duplicate.kept.id}, 削除候補: ${extraIds})`
+        );
+      }
+
+      if (dryRun) {
+        continue;
+      }
+
+      // 削除はGoogle Calendarに影響するため、--yesの指定があっても必ず確認する
+      const approved = await confirm(
+        `重複した${extras.length}件のGoogleイベントを削除しますか?`
+      );
+      if (!approved) {
+        continue;
+      }
+
+      for (const extra of extras) {
+        try {
+          await route.calendar.deleteEvent(extra.id!);
+          db.logSync(
+            'DELETE',
+            extra.extendedProperties?.private?.garoonEventId,
+            extra.id,
+            '重複したイベントを削除'
+          );
+          console.log(`削除しました: ${extra.id}`);
+        } catch (error) {
+          console.error(`削除に失敗しました (${extra.id}):`, error);
+        }
+      }
+    }
+  } finally {
+    db.close();
+    lock.release();
+  }
+
+  if (dryRun) {
+    console.log('\ndry-runのため、データベースとGoogle Calendarは変更していません');
+  }
+}
+
+main().catch((error) => {
+  console.error('同期データベースの再構築中にエラーが発生しました:', error);
+  process.exit(1);
+});
@@ -45,12 +45,24 @@ async function main(): Promise<void> {
     await syncEvents(configPath);
 
     // 定期実行の設定
+    // 前回の同期が終わっていない場合は重複して実行しない
+    let running = false;
     cron.schedule(cronExpression, async () => {
+      if (running) {
+        console.log(
+          `[${new Date().toLocaleString()}] 前回の同期が実行中のため、今回の定期同期をスキップします`
+        );
+        return;
+      }
+
       console.log(`[${new Date().toLocaleString()}] 定期同期を実行します...`);
+      running = true;
       try {
         await syncEvents(configPath);
       } catch (error) {
         console.error('定期同期中にエラーが発生しました:', error);
+      } finally {
+        running = false;
       }
     });
 
@@ -1,6 +1,45 @@
 // Googleカレンダー同期実行スクリプト
 
-import { syncEvents } from '../google/sync';
+import { syncEvents, planSync } from '../google/sync';
+import { SyncPlan } from '../types/sync';
+
+/**
+ * 同期計画を表示する
+ * @param plan 同期計画
+ */
+function printPlan(plan: SyncPlan): void {
+  console.log(`\n========== 同期計画 (${plan.startDate} - ${plan.endDate}) ==========`);
+
+  if (plan.actions.length === 0) {
+    console.log('変更予定はありません。');
+  }
+
+  for (const action of plan.actions) {
+    const ids = action.googleEventId
+      ? `Garoon=${action.garoonEventId}, Google=${action.googleEventId}`
+      : `Garoon=${action.garoonEventId}`;
+    const route = action.route ? ` [${action.route}]` : '';
+    console.log(`[${action.type}]${route} ${action.summary} (${ids})`);
+
+    for (const diff of action.diffs) {
+      console.log(
+        `  ${diff.field}: ${diff.before ?? '(なし)'} -> ${diff.after ?? '(なし)'}`
+      );
+    }
+  }
+
+  if (plan.deletionBlockedReasons.length > 0) {
+    console.log('\n削除は安全確認により保留されます:');
+    plan.deletionBlockedReasons.forEach((r) => console.log(`  - ${r}`));
+  }
+
+  const count = (type: string) =>
+    plan.actions.filter((a) => a.type === type).length;
+  console.log('==============================');
+  console.log(
+    `作成: ${count('CREATE')}件, 更新: ${count('UPDATE')}件, 削除: ${count('DELETE')}件, 書き戻し: ${count('WRITE_BACK')}件, 競合: ${count('CONFLICT')}件, 変更なし: ${plan.unchanged}件, 除外: ${plan.skipped}件, エラー: ${plan.errors}件`
+  );
+}
 
 /**
  * メイン関数
@@ -22,8 +61,30 @@ async function main(): Promise<void> {
     const endDateArg = process.argv.find((arg) => arg.startsWith('--end='));
     const endDate = endDateArg ? endDateArg.split('=')[1] : undefined;
 
+    // dry-run（変更内容の表示のみ）
+    const dryRun = process.argv.includes('--dry-run');
+
+    // 安全確認で保留された削除を承認する
+    const approveDeletions = process.argv.includes('--approve-deletions');
+
+    // 変更の有無にかかわらず全イベントを更新する
+    const force = process.argv.includes('--force');
+
+    if (dryRun) {
+      const plan = await planSync(configPath, startDate, endDate, {
+        approveDeletions,
+        force,
+      });
+      printPlan(plan);
+      console.log('dry-runのため、Google Calendarとデータベースは変更していません');
+      process.exit(0);
+    }
+
     // 同期実行
-    await syncEvents(configPath, startDate, endDate);
+    await syncEvents(configPath, startDate, endDate, {
+      approveDeletions,
+      force,
+    });
 
     console.log('同期が完了しました');
     process.exit(0);
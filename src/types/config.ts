@@ -1,22 +1,150 @@
 // 設定関連の型定義
 
-import { GaroonAuthConfig } from './garoon';
-import { GoogleCalendarConfig } from './google';
+import { GaroonAuthConfig, GaroonEvent } from './garoon';
+import {
+  GoogleCalendarConfig,
+  GoogleEvent,
+  GoogleEventType,
+  GoogleOutOfOfficeProperties,
+  GoogleReminder,
+} from './google';
 
 export interface TeamsConfig {
   webhookUrl: string;
   notifyOnError: boolean;
 }
 
+// 同期データの保存先
+// sqlite: SQLiteのデータベースファイル / json: JSONファイル（旧バージョンとの互換用）
+export type DatabaseBackend = 'sqlite' | 'json';
+
 export interface DatabaseConfig {
   path: string;
+  backend: DatabaseBackend;
+}
+
+export interface DeletionSafetyConfig {
+  // 1回の同期で承認なしに削除できる最大件数
+  maxDeletions: number;
+  // 前回の取得件数からの減少率がこの値を超えた場合は削除を保留する (0〜1)
+  maxFetchDropRatio: number;
+}
+
+// Google側で編集された内容をガルーンに書き戻せる項目
+export type WriteBackField = 'subject' | 'start' | 'end' | 'location';
+
+// ガルーンとGoogleの両方で変更された場合の解決方針
+// garoon: ガルーンを優先 / google: Googleを優先 / newest: 新しい方を優先 / review: どちらも変更せず確認を依頼
+export type ConflictPolicy = 'garoon' | 'google' | 'newest' | 'review';
+
+export interface WriteBackConfig {
+  enabled: boolean;
+  conflictPolicy: ConflictPolicy;
+  fields: WriteBackField[];
+}
+
+// Googleイベントの作成・更新・削除時に参加者へ通知する範囲
+export type SendUpdatesMode = 'all' | 'externalOnly' | 'none';
+
+export interface AttendeeConfig {
+  // ガルーンの参加者をGoogleイベントの参加者として招待する（Domain-Wide Delegationが必要）
+  invite: boolean;
+  sendUpdates: SendUpdatesMode;
+  // ガルーンのユーザー（IDまたはログイン名）とメールアドレスの対応表（JSONファイル）
+  mappingFile?: string;
+  // ガルーンのユーザー一覧APIからメールアドレスを取得する
+  useGaroonDirectory: boolean;
+  // ユーザー一覧のキャッシュの有効期間（時間）
+  cacheHours: number;
+}
+
+// Googleイベントの各項目のテンプレート（省略した項目は従来の形式）
+// {{subject}}などでガルーンイベントの項目を、{{#if 項目}}...{{else}}...{{/if}}で条件付きの内容を出力する
+export interface EventTemplateConfig {
+  summary?: string;
+  description?: string;
+  location?: string;
+}
+
+// 同期対象の絞り込みルールの動作
+export type EventFilterAction = 'include' | 'exclude';
+
+// 絞り込みルールの条件（指定した条件をすべて満たす場合に一致）
+export interface EventFilterCondition {
+  // 予定メニューのいずれかに一致
+  eventMenus?: string[];
+  // タイトルが正規表現に一致
+  subjectPattern?: string;
+  // 参加者（ユーザーID・ログイン名・名前）のいずれかを含む
+  attendees?: string[];
+  // 施設（施設ID・施設コード・施設名）のいずれかを含む
+  facilities?: string[];
+  // 予定の種類のいずれかに一致
+  eventTypes?: GaroonEvent['eventType'][];
+  // 予定の長さ（分）
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  // 開始時刻 (HH:mm) がこの範囲内（startTimeToは含まない。日をまたぐ範囲も指定可）
+  startTimeFrom?: string;
+  startTimeTo?: string;
+}
+
+export interface EventFilterRule extends EventFilterCondition {
+  // 同期ログに表示するルール名（省略時は順番）
+  name?: string;
+  action: EventFilterAction;
+}
+
+export interface EventFilterConfig {
+  // どのルールにも一致しない場合の動作
+  defaultAction: EventFilterAction;
+  // 先頭から順に評価し、最初に一致したルールの動作に従う
+  rules: EventFilterRule[];
+}
+
+// Googleイベントの表示設定
+export interface EventStyle {
+  colorId?: string;
+  // リマインダー（空配列の場合はリマインダーなし、省略時はカレンダーの既定）
+  reminders?: GoogleReminder[];
+  transparency?: GoogleEvent['transparency'];
+  eventType?: GoogleEventType;
+  // eventTypeがoutOfOfficeの場合の自動応答（declineMessageにはテンプレートを使用可能）
+  outOfOffice?: GoogleOutOfOfficeProperties;
+}
+
+// 予定メニュー・予定の種類に応じた表示設定（指定した条件をすべて満たす場合に適用）
+export interface EventStyleRule extends EventStyle {
+  eventMenus?: string[];
+  eventTypes?: GaroonEvent['eventType'][];
+}
+
+// 非公開の予定（非公開・公開先を限定した予定）の同期方法
+// exclude: 同期しない / busy: 内容を含まない「予定あり」として同期 / full: 内容を含めて同期
+export type PrivateEventMode = 'exclude' | 'busy' | 'full';
+
+export interface FacilityConfig {
+  // ガルーンの施設（施設ID・施設コード・施設名）とGoogle Workspaceのリソースカレンダーのメールアドレスの対応
+  // 対応する施設を予約した予定は、リソースカレンダーを参加者として追加する（Domain-Wide Delegationが必要）
+  resourceCalendars?: Record<string, string>;
 }
 
 export interface SyncConfig {
   days: number;
   excludePrivate: boolean;
+  // 非公開の予定の同期方法（省略時はexcludePrivateがtrueならexclude、falseならfull）
+  // 省略時のexcludeは従来どおり非公開の予定のみを対象とし、公開先を限定した予定は同期する
+  privateEvents?: PrivateEventMode;
   intervalMinutes?: number;
   defaultTimeZone?: string;
+  deletionSafety?: DeletionSafetyConfig;
+  writeBack?: WriteBackConfig;
+  attendees?: AttendeeConfig;
+  facilities?: FacilityConfig;
+  templates?: EventTemplateConfig;
+  filter?: EventFilterConfig;
+  // 一致したルールを先頭から順に重ねて適用する（後のルールが優先）
+  styles?: EventStyleRule[];
 }
 
 export interface AppConfig {
@@ -16,16 +16,102 @@ export interface GaroonEvent {
   notes?: string;
   attendees: GaroonAttendee[];
   visibilityType: string;
-  eventType: 'REGULAR' | 'REPEATING' | 'ALL_DAY';
+  eventType: 'REGULAR' | 'REPEATING' | 'TEMPORARY' | 'ALL_DAY';
   updatedAt: string;
   createdAt: string;
   location?: string;
+  // 予約した施設
+  facilities?: GaroonFacility[];
+  repeatId?: string;
+  repeatInfo?: GaroonRepeatInfo;
+  // 仮予定の候補日時（eventTypeがTEMPORARYの場合）
+  temporaryEventCandidates?: GaroonTemporaryEventCandidate[];
+}
+
+export interface GaroonTemporaryEventCandidate {
+  start: {
+    dateTime: string;
+    timeZone: string;
+  };
+  end: {
+    dateTime: string;
+    timeZone: string;
+  };
+  // 候補日時ごとに予約した施設
+  facility?: GaroonFacility;
+}
+
+export interface GaroonRepeatInfo {
+  type:
+    | 'EVERY_DAY'
+    | 'EVERY_WEEKDAY'
+    | 'EVERY_WEEK'
+    | 'EVERY_1STWEEK'
+    | 'EVERY_2NDWEEK'
+    | 'EVERY_3RDWEEK'
+    | 'EVERY_4THWEEK'
+    | 'EVERY_LASTWEEK'
+    | 'EVERY_MONTH';
+  period: {
+    start: string;
+    end: string;
+  };
+  time?: {
+    start: string;
+    end: string;
+  };
+  timeZone: string;
+  isAllDay: boolean;
+  isStartOnly: boolean;
+  dayOfWeek?: string;
+  dayOfMonth?: string;
+  exclusiveDateTimes?: {
+    start: string;
+    end: string;
+  }[];
+}
+
+export interface GaroonEventUpdate {
+  subject?: string;
+  start?: {
+    dateTime: string;
+    timeZone: string;
+  };
+  end?: {
+    dateTime: string;
+    timeZone: string;
+  };
+  location?: string;
 }
 
 export interface GaroonAttendee {
   id: string;
   type: 'USER' | 'ORGANIZATION' | 'FACILITY';
   name: string;
+  code?: string;
+}
+
+export interface GaroonFacility {
+  id: string;
+  name: string;
+  code?: string;
+}
+
+export interface GaroonFacilitiesResponse {
+  facilities: GaroonFacility[];
+  hasNext: boolean;
+}
+
+export interface GaroonUser {
+  id: string;
+  code: string;
+  name: string;
+  email?: string;
+}
+
+export interface GaroonUsersResponse {
+  users: GaroonUser[];
+  hasNext: boolean;
 }
 
 export interface GaroonScheduleResponse {
@@ -34,11 +120,28 @@ export interface GaroonScheduleResponse {
   nextEventId?: string;
 }
 
+// 取得対象の種類（facilityGroupは施設グループに属する各施設の予定を取得する）
+export type GaroonTargetType =
+  | 'user'
+  | 'organization'
+  | 'facility'
+  | 'facilityGroup';
+
 export interface GaroonTarget {
-  type: 'user' | 'organization';
+  type: GaroonTargetType;
   id: string;
 }
 
+export interface GaroonTargetFailure {
+  target: GaroonTarget;
+  error: string;
+}
+
+export interface GaroonScheduleResult {
+  events: GaroonEvent[];
+  failedTargets: GaroonTargetFailure[];
+}
+
 export interface GaroonAuthConfig {
   baseUrl: string;
   apiToken?: string;
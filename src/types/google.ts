@@ -1,5 +1,7 @@
 // Google Calendar関連の型定義
 
+import { GaroonTarget } from './garoon';
+
 export interface GoogleEventTime {
   dateTime: string;
   timeZone: string;
@@ -14,6 +16,8 @@ export interface GoogleAttendee {
   displayName?: string;
   responseStatus?: string;
   optional?: boolean;
+  // 会議室などのリソースカレンダー
+  resource?: boolean;
 }
 
 export interface GoogleEvent {
@@ -24,21 +28,54 @@ export interface GoogleEvent {
   start: GoogleEventTime | GoogleEventDate;
   end: GoogleEventTime | GoogleEventDate;
   attendees?: GoogleAttendee[];
+  recurrence?: string[];
+  recurringEventId?: string;
   extendedProperties?: {
     private?: {
       garoonEventId?: string;
       garoonUpdatedAt?: string;
+      // 同期時点の書き戻し対象項目のハッシュ（Google側の編集検出用）
+      garoonSyncedHash?: string;
+      // 仮予定の候補日時の番号（0始まり）
+      garoonCandidateIndex?: string;
     };
   };
   status?: 'confirmed' | 'tentative' | 'cancelled';
+  updated?: string;
   visibility?: 'default' | 'public' | 'private' | 'confidential';
   reminders?: {
     useDefault: boolean;
-    overrides?: {
-      method: 'email' | 'popup';
-      minutes: number;
-    }[];
+    overrides?: GoogleReminder[];
   };
+  // イベントの色（Google Calendarの色ID "1"〜"11"）
+  colorId?: string;
+  // opaque: 予定あり / transparent: 予定なし（空き時間として表示）
+  transparency?: 'opaque' | 'transparent';
+  eventType?: GoogleEventType;
+  // 不在イベント（eventTypeがoutOfOffice）の設定
+  outOfOfficeProperties?: GoogleOutOfOfficeProperties;
+}
+
+export interface GoogleReminder {
+  method: 'email' | 'popup';
+  minutes: number;
+}
+
+// Googleイベントの種類（outOfOffice・focusTimeは主カレンダーのみ作成可能）
+export type GoogleEventType = 'default' | 'outOfOffice' | 'focusTime';
+
+// 不在中に届いた招待への自動応答
+// declineNone: 辞退しない / declineAllConflictingInvitations: 重なる招待をすべて辞退
+// declineOnlyNewConflictingInvitations: 新しく届いた重なる招待のみ辞退
+export type GoogleAutoDeclineMode =
+  | 'declineNone'
+  | 'declineAllConflictingInvitations'
+  | 'declineOnlyNewConflictingInvitations';
+
+export interface GoogleOutOfOfficeProperties {
+  autoDeclineMode?: GoogleAutoDeclineMode;
+  // 辞退時に返信するメッセージ
+  declineMessage?: string;
 }
 
 export interface GoogleOAuthConfig {
@@ -46,8 +83,29 @@ export interface GoogleOAuthConfig {
   clientSecret: string;
 }
 
+// ガルーンのターゲットごとの同期先カレンダー
+export interface GoogleRouteConfig {
+  // ルート名（同期情報の名前空間として使用するため一意であること）
+  name: string;
+  calendarId: string;
+  // このカレンダーに同期するガルーンのターゲット
+  targets: GaroonTarget[];
+  // 認証情報ファイルのパス（省略時はgoogle.credentialsを使用）
+  credentials?: string;
+  // Domain-Wide Delegationで代理するユーザー（省略時はgoogle.subjectを使用）
+  subject?: string;
+}
+
 export interface GoogleCalendarConfig {
   calendarId: string;
   credentials: string;
   oauth?: GoogleOAuthConfig;
+  // Domain-Wide Delegationで代理するGoogle Workspaceユーザーのメールアドレス（省略時は代理しない）
+  subject?: string;
+  // ターゲットごとの同期先（省略時は全ターゲットをcalendarIdに同期）
+  routes?: GoogleRouteConfig[];
+  // 参加者への通知範囲（省略時は通知しない）
+  sendUpdates?: 'all' | 'externalOnly' | 'none';
+  // タイムゾーンが指定されていないイベントに使用するタイムゾーン（sync.defaultTimeZoneから設定）
+  timeZone?: string;
 }
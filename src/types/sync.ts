@@ -0,0 +1,44 @@
+// 同期処理関連の型定義
+
+// CONFLICT は review ポリシーで人の確認待ちになる編集の競合
+export type SyncActionType =
+  | 'CREATE'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'WRITE_BACK'
+  | 'CONFLICT';
+
+export interface SyncFieldDiff {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export interface SyncPlanAction {
+  type: SyncActionType;
+  garoonEventId: string;
+  googleEventId?: string;
+  summary: string;
+  diffs: SyncFieldDiff[];
+  // 同期先のルート名（既定のルートの場合は省略）
+  route?: string;
+}
+
+export interface SyncPlan {
+  startDate: string;
+  endDate: string;
+  actions: SyncPlanAction[];
+  unchanged: number;
+  // 絞り込みルールにより同期しないイベントの件数
+  skipped: number;
+  errors: number;
+  // 削除の安全確認により保留された理由（保留されなかった場合は空配列）
+  deletionBlockedReasons: string[];
+}
+
+export interface SyncOptions {
+  // 安全確認で保留される削除を承認して実行する
+  approveDeletions?: boolean;
+  // 変更がなくても全イベントを作成し直した内容で更新する
+  force?: boolean;
+}
@@ -0,0 +1,176 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AttendeeResolver,
+  buildAttendees,
+  buildResourceAttendees,
+} from '../src/google/attendees';
+import { AttendeeConfig } from '../src/types/config';
+import { GaroonAttendee, GaroonUser } from '../src/types/garoon';
+
+describe('buildAttendees', () => {
+  const attendees: GaroonAttendee[] = [
+    { id: '1', type: 'USER', name: 'Taro' },
+    { id: '2', type: 'USER', name: 'Hanako' },
+    { id: '3', type: 'ORGANIZATION', name: 'Sales' },
+  ];
+
+  it('invites users with a known email and lists the rest by name', () => {
+    const result = buildAttendees(attendees, (a) =>
+      a.id === '1' ? 'taro@example.com' : undefined
+    );
+
+    expect(result.attendees).toEqual([
+      { email: 'taro@example.com', displayName: 'Taro' },
+    ]);
+    expect(result.unresolvedNames).toEqual(['Hanako']);
+  });
+
+  it('does not invite the same email twice', () => {
+    const result = buildAttendees(attendees, () => 'shared@example.com');
+
+    expect(result.attendees).toHaveLength(1);
+  });
+});
+
+describe('buildResourceAttendees', () => {
+  it('adds mapped facilities as resource attendees by ID, code or name', () => {
+    const result = buildResourceAttendees(
+      [
+        { id: '10', code: 'room-a', name: '会議室A' },
+        { id: '11', code: 'room-b', name: '会議室B' },
+        { id: '12', name: '応接室' },
+        { id: '13', name: '倉庫' },
+      ],
+      {
+        '10': 'room-a@resource.calendar.google.com',
+        'room-b': 'room-b@resource.calendar.google.com',
+        応接室: 'reception@resource.calendar.google.com',
+      }
+    );
+
+    expect(result).toEqual([
+      {
+        email: 'room-a@resource.calendar.google.com',
+        displayName: '会議室A',
+        resource: true,
+      },
+      {
+        email: 'room-b@resource.calendar.google.com',
+        displayName: '会議室B',
+        resource: true,
+      },
+      {
+        email: 'reception@resource.calendar.google.com',
+        displayName: '応接室',
+        resource: true,
+      },
+    ]);
+  });
+});
+
+describe('AttendeeResolver', () => {
+  let dir: string;
+  const users: GaroonUser[] = [
+    { id: '1', code: 'taro', name: 'Taro', email: 'taro@example.com' },
+    { id: '2', code: 'hanako', name: 'Hanako' },
+  ];
+
+  const baseConfig: AttendeeConfig = {
+    invite: true,
+    sendUpdates: 'none',
+    useGaroonDirectory: true,
+    cacheHours: 24,
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attendees-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prefers the mapping file over the Garoon directory', async () => {
+    const mappingFile = path.join(dir, 'mapping.json');
+    fs.writeFileSync(
+      mappingFile,
+      JSON.stringify({ hanako: 'hanako@example.com', '1': 'mapped@example.com' })
+    );
+    const resolver = new AttendeeResolver(
+      { ...baseConfig, mappingFile },
+      { listUsers: async () => users },
+      path.join(dir, 'cache.json')
+    );
+
+    await resolver.load();
+
+    expect(resolver.resolve({ id: '1', type: 'USER', name: 'Taro' })).toBe(
+      'mapped@example.com'
+    );
+    expect(
+      resolver.resolve({ id: '2', type: 'USER', name: 'Hanako', code: 'hanako' })
+    ).toBe('hanako@example.com');
+  });
+
+  it('reuses a fresh cache instead of calling the users API', async () => {
+    const cachePath = path.join(dir, 'cache.json');
+    const listUsers = jest.fn(async () => users);
+
+    await new AttendeeResolver(baseConfig, { listUsers }, cachePath).load();
+    const resolver = new AttendeeResolver(baseConfig, { listUsers }, cachePath);
+    await resolver.load();
+
+    expect(listUsers).toHaveBeenCalledTimes(1);
+    expect(resolver.resolve({ id: '1', type: 'USER', name: 'Taro' })).toBe(
+      'taro@example.com'
+    );
+    expect(
+      resolver.resolve({ id: '2', type: 'USER', name: 'Hanako' })
+    ).toBeUndefined();
+  });
+
+  it('does not write the cache when saving is disabled', async () => {
+    const cachePath = path.join(dir, 'cache.json');
+    const resolver = new AttendeeResolver(
+      baseConfig,
+      { listUsers: async () => users },
+      cachePath
+    );
+
+    await resolver.load(false);
+
+    expect(fs.existsSync(cachePath)).toBe(false);
+    expect(resolver.resolve({ id: '1', type: 'USER', name: 'Taro' })).toBe(
+      'taro@example.com'
+    );
+  });
+
+  it('falls back to a stale cache when the users API fails', async () => {
+    const cachePath = path.join(dir, 'cache.json');
+    fs.writeFileSync(
+      cachePath,
+      JSON.stringify({
+        fetchedAt: '2000-01-01T00:00:00Z',
+        users: [{ id: '1', code: 'taro', email: 'taro@example.com' }],
+      })
+    );
+    const resolver = new AttendeeResolver(
+      baseConfig,
+      {
+        listUsers: async () => {
+          throw new Error('unavailable');
+        },
+      },
+      cachePath
+    );
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await resolver.load();
+
+    expect(resolver.resolve({ id: '1', type: 'USER', name: 'Taro' })).toBe(
+      'taro@example.com'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createGoogleAuth,
+  detectCredentialsType,
+  saveRefreshedTokens,
+} from '../src/google/auth';
+
+describe('detectCredentialsType', () => {
+  it('detects service account keys', () => {
+    expect(
+      detectCredentialsType({ type: 'service_account', private_key: 'key' })
+    ).toBe('service_account');
+  });
+
+  it('detects refresh-token credentials with or without a type field', () => {
+    expect(
+      detectCredentialsType({ type: 'authorized_user', refresh_token: 'r' })
+    ).toBe('authorized_user');
+    expect(
+      detectCredentialsType({ client_id: 'id', refresh_token: 'r' })
+    ).toBe('authorized_user');
+  });
+
+  it('rejects OAuth client files without a refresh token', () => {
+    expect(() => detectCredentialsType({ installed: {} })).toThrow(
+      /リフレッシュトークン/
+    );
+  });
+});
+
+describe('OAuth credentials', () => {
+  let dir: string;
+  let credentialsPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'google-auth-'));
+    credentialsPath = path.join(dir, 'google-credentials.json');
+    fs.writeFileSync(
+      credentialsPath,
+      JSON.stringify({
+        client_id: 'id',
+        client_secret: 'secret',
+        redirect_uris: ['http://localhost'],
+        refresh_token: 'old-refresh',
+      })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates an OAuth client from a refresh-token file', () => {
+    const result = createGoogleAuth(credentialsPath);
+
+    expect(result.type).toBe('authorized_user');
+    expect(result.clientId).toBe('id');
+  });
+
+  it('does not allow impersonation with OAuth credentials', () => {
+    expect(() =>
+      createGoogleAuth(credentialsPath, { subject: 'taro@example.com' })
+    ).toThrow(/サービスアカウント/);
+  });
+
+  it('persists rotated tokens and keeps the client settings', () => {
+    saveRefreshedTokens(credentialsPath, {
+      refresh_token: 'new-refresh',
+      access_token: 'access',
+      expiry_date: 1700000000000,
+    });
+
+    const saved = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+    expect(saved).toMatchObject({
+      client_id: 'id',
+      client_secret: 'secret',
+      refresh_token: 'new-refresh',
+      access_token: 'access',
+      expiry_date: 1700000000000,
+    });
+    expect(fs.statSync(credentialsPath).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,105 @@
+import { getDefaultConfig, validateConfig } from '../src/common/config';
+import { AppConfig } from '../src/types/config';
+
+describe('validateConfig', () => {
+  const createConfig = (): AppConfig => {
+    const config = getDefaultConfig();
+    config.garoon.apiToken = 'token';
+    // 存在するファイルであれば検証を通過する
+    config.google.credentials = 'package.json';
+    return config;
+  };
+
+  it('rejects an impersonated subject that is not an email address', () => {
+    const config = createConfig();
+    config.google.subject = 'taro';
+
+    expect(() => validateConfig(config)).toThrow(/google\.subject/);
+  });
+
+  it('requires a subject when attendee invitations are enabled', () => {
+    const config = createConfig();
+    config.sync.attendees!.invite = true;
+
+    expect(() => validateConfig(config)).toThrow(/Domain-Wide Delegation/);
+
+    config.google.subject = 'taro@example.com';
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  it('requires a subject for every route when inviting attendees', () => {
+    const config = createConfig();
+    config.sync.attendees!.invite = true;
+    config.google.routes = [
+      {
+        name: 'personal',
+        calendarId: 'taro@example.com',
+        targets: [{ type: 'user', id: '2' }],
+        subject: 'taro@example.com',
+      },
+      {
+        name: 'team',
+        calendarId: 'team@example.com',
+        targets: [{ type: 'organization', id: '4' }],
+      },
+    ];
+
+    expect(() => validateConfig(config)).toThrow(/team/);
+  });
+
+  it('rejects the reserved default route name', () => {
+    const config = createConfig();
+    config.google.routes = [
+      {
+        name: 'default',
+        calendarId: 'taro@example.com',
+        targets: [{ type: 'user', id: '2' }],
+      },
+    ];
+
+    expect(() => validateConfig(config)).toThrow(/default/);
+
+    config.google.routes[0].name = 'personal';
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  it('rejects a template with an unclosed conditional', () => {
+    const config = createConfig();
+    config.sync.templates = { summary: '{{#if eventMenu}}{{subject}}' };
+
+    expect(() => validateConfig(config)).toThrow(/閉じられていません/);
+
+    config.sync.templates.summary = '{{#if eventMenu}}[{{eventMenu}}]{{/if}}';
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  it('rejects an unknown private event mode', () => {
+    const config = createConfig();
+    config.sync.privateEvents = 'hidden' as never;
+
+    expect(() => validateConfig(config)).toThrow(/sync\.privateEvents/);
+
+    config.sync.privateEvents = 'busy';
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  it('accepts facility targets and requires a subject for resource calendars', () => {
+    const config = createConfig();
+    config.google.routes = [
+      {
+        name: 'rooms',
+        calendarId: 'rooms@example.com',
+        targets: [
+          { type: 'facility', id: '10' },
+          { type: 'facilityGroup', id: '3' },
+        ],
+      },
+    ];
+    expect(() => validateConfig(config)).not.toThrow();
+
+    config.sync.facilities = {
+      resourceCalendars: { '10': 'room-a@resource.calendar.google.com' },
+    };
+    expect(() => validateConfig(config)).toThrow(/resourceCalendars/);
+  });
+});
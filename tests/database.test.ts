@@ -0,0 +1,422 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { SyncDatabase } from '../src/common/database';
+import { JSON_SCHEMA_VERSION } from '../src/common/jsonSyncStore';
+import { SQLITE_SCHEMA_VERSION } from '../src/common/sqliteSyncStore';
+import { getDefaultConfig } from '../src/common/config';
+import { DatabaseBackend } from '../src/types/config';
+
+/**
+ * テスト用のデータベースを開く
+ * @param dir データベースを置くディレクトリ
+ * @param backend 保存先
+ * @param readOnly 読み込み専用で開くか
+ */
+function openDatabase(
+  dir: string,
+  backend: DatabaseBackend,
+  readOnly = false
+): SyncDatabase {
+  const config = getDefaultConfig();
+  config.database.path = path.join(dir, 'sync.db');
+  config.database.backend = backend;
+  return new SyncDatabase(config, { readOnly });
+}
+
+const BACKENDS: DatabaseBackend[] = ['sqlite', 'json'];
+
+describe.each(BACKENDS)('SyncDatabase (%s)', (backend) => {
+  let dir: string;
+  let db: SyncDatabase;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-db-'));
+    db = openDatabase(dir, backend);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('mappings', () => {
+    it('keeps instances when a mapping is saved again', () => {
+      db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z', {
+        eventStart: '2024-01-10T10:00:00+09:00',
+        eventEnd: '2024-01-10T11:00:00+09:00',
+      });
+      db.saveInstanceInfo('100', '2024-01-17T10:00:00+09:00', {
+        googleEventId: 'google-100_20240117T010000Z',
+        status: 'cancelled',
+      });
+      db.markConflict('100');
+      db.saveSyncInfo('100', 'google-100', '2024-01-02T00:00:00Z');
+
+      const info = db.getSyncInfo('100');
+      expect(info?.garoonUpdatedAt).toBe('2024-01-02T00:00:00Z');
+      expect(info?.conflictDetectedAt).toBeUndefined();
+      expect(info?.instances?.['2024-01-17T10:00:00+09:00']?.status).toBe(
+        'cancelled'
+      );
+    });
+
+    it('stores the payload hash with the mapping', () => {
+      db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z', {
+        payloadHash: 'hash-1',
+      });
+      db.markConflict('100');
+
+      expect(db.getSyncInfo('100')?.payloadHash).toBe('hash-1');
+    });
+
+    it('stores the candidate event IDs of a temporary event', () => {
+      db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z', {
+        candidateEventIds: ['google-100-1', 'google-100-2'],
+      });
+      expect(db.getSyncInfo('100')?.candidateEventIds).toEqual([
+        'google-100-1',
+        'google-100-2',
+      ]);
+
+      db.saveSyncInfo('100', 'google-100', '2024-01-02T00:00:00Z');
+      expect(db.getSyncInfo('100')?.candidateEventIds).toBeUndefined();
+    });
+
+    it('stores whether the event is recurring', () => {
+      db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z', {
+        recurring: false,
+      });
+      db.saveSyncInfo('200', 'google-200', '2024-01-01T00:00:00Z', {
+        recurring: true,
+      });
+      db.saveSyncInfo('300', 'google-300', '2024-01-01T00:00:00Z');
+
+      expect(db.getSyncInfo('100')?.recurring).toBe(false);
+      expect(db.getSyncInfo('200')?.recurring).toBe(true);
+      expect(db.getSyncInfo('300')?.recurring).toBeUndefined();
+    });
+
+    it('deletes a mapping by its Google event ID', () => {
+      db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z');
+      db.saveSyncInfo('200', 'google-200', '2024-01-01T00:00:00Z');
+
+      db.deleteSyncInfoByGoogleEventId('google-100');
+
+      expect(db.getSyncInfo('100')).toBeNull();
+      expect(db.getSyncInfo('200')).not.toBeNull();
+    });
+
+    it('returns the most recent logs first', () => {
+      db.logSync('CREATE', '100', 'google-100');
+      db.logSync('UPDATE', '100', 'google-100', 'details');
+
+      const logs = db.getRecentLogs(1);
+      expect(logs).toHaveLength(1);
+      expect(logs[0]).toMatchObject({
+        action: 'UPDATE',
+        garoon_event_id: '100',
+        details: 'details',
+      });
+    });
+  });
+
+  describe('transactions', () => {
+    it('keeps writes made during a transaction after commit', () => {
+      db.beginTransaction();
+      db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z');
+      db.logSync('CREATE', '100', 'google-100');
+      expect(db.getSyncInfo('100')).not.toBeNull();
+      db.commitTransaction();
+      db.close();
+
+      db = openDatabase(dir, backend);
+      expect(db.getSyncInfo('100')?.googleEventId).toBe('google-100');
+      expect(db.getRecentLogs(10)).toHaveLength(1);
+    });
+  });
+
+  describe('routes', () => {
+    it('keeps mappings for the same Garoon event separate per route', () => {
+      db.saveSyncInfo('100', 'google-default', '2024-01-01T00:00:00Z');
+      db.saveSyncInfo('100', 'google-team', '2024-01-01T00:00:00Z', {}, 'team');
+
+      expect(db.getSyncInfo('100')?.googleEventId).toBe('google-default');
+      expect(db.getSyncInfo('100', 'team')?.googleEventId).toBe('google-team');
+      expect(db.getAllSyncedEvents('default')).toHaveLength(1);
+      expect(db.getAllSyncedEvents('team')).toHaveLength(1);
+      expect(db.getAllSyncedEvents()).toHaveLength(2);
+    });
+
+    it('deletes a mapping only from its own route', () => {
+      db.saveSyncInfo('100', 'google-default', '2024-01-01T00:00:00Z');
+      db.saveSyncInfo('100', 'google-team', '2024-01-01T00:00:00Z', {}, 'team');
+
+      db.deleteSyncInfo('100', 'team');
+
+      expect(db.getSyncInfo('100')).not.toBeNull();
+      expect(db.getSyncInfo('100', 'team')).toBeNull();
+    });
+
+    it('tracks fetch counts and pending deletions per route', () => {
+      db.setLastFetchCount(10);
+      db.setLastFetchCount(3, 'team');
+      db.setPendingDeletions(
+        [
+          {
+            garoonEventId: '1',
+            googleEventId: 'g1',
+            detectedAt: '2024-01-01T00:00:00Z',
+            reasons: ['test'],
+          },
+        ],
+        'team'
+      );
+      db.setPendingDeletions([]);
+
+      expect(db.getLastFetchCount()).toBe(10);
+      expect(db.getLastFetchCount('team')).toBe(3);
+      expect(db.getPendingDeletions()).toHaveLength(0);
+      expect(db.getPendingDeletions('team')).toHaveLength(1);
+    });
+  });
+
+  describe('google sync tokens', () => {
+    it('stores a sync token per route and keeps it across reloads', () => {
+      db.setGoogleSyncToken('token-default');
+      db.setGoogleSyncToken('token-team', 'team');
+
+      db.close();
+      db = openDatabase(dir, backend);
+
+      expect(db.getGoogleSyncToken()).toBe('token-default');
+      expect(db.getGoogleSyncToken('team')).toBe('token-team');
+      expect(db.getGoogleSyncToken('other')).toBeUndefined();
+    });
+  });
+});
+
+describe('SyncDatabase JSON migration', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-db-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('imports an existing JSON file into a new SQLite database once', () => {
+    const json = openDatabase(dir, 'json');
+    json.saveSyncInfo('100', 'google-default', '2024-01-01T00:00:00Z', {
+      eventStart: '2024-01-10T10:00:00+09:00',
+    });
+    json.saveSyncInfo('100', 'google-team', '2024-01-01T00:00:00Z', {}, 'team');
+    json.setLastFetchCount(10);
+    json.setLastFetchCount(3, 'team');
+    json.setGoogleSyncToken('token-team', 'team');
+    json.setPendingDeletions([
+      {
+        garoonEventId: '1',
+        googleEventId: 'g1',
+        detectedAt: '2024-01-01T00:00:00Z',
+        reasons: ['test'],
+      },
+    ]);
+    json.logSync('CREATE', '100', 'google-default');
+    json.close();
+
+    const sqlite = openDatabase(dir, 'sqlite');
+    expect(sqlite.getSyncInfo('100')).toMatchObject({
+      googleEventId: 'google-default',
+      eventStart: '2024-01-10T10:00:00+09:00',
+    });
+    expect(sqlite.getSyncInfo('100', 'team')?.googleEventId).toBe(
+      'google-team'
+    );
+    expect(sqlite.getLastFetchCount()).toBe(10);
+    expect(sqlite.getLastFetchCount('team')).toBe(3);
+    expect(sqlite.getGoogleSyncToken('team')).toBe('token-team');
+    expect(sqlite.getPendingDeletions()).toHaveLength(1);
+    expect(sqlite.getRecentLogs(10)).toHaveLength(1);
+    sqlite.close();
+
+    expect(fs.existsSync(path.join(dir, 'sync.json'))).toBe(false);
+    expect(fs.existsSync(path.join(dir, 'sync.json.migrated'))).toBe(true);
+  });
+
+  it('does not import a JSON file into an existing SQLite database', () => {
+    openDatabase(dir, 'sqlite').close();
+
+    const json = openDatabase(dir, 'json');
+    json.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z');
+    json.close();
+
+    const sqlite = openDatabase(dir, 'sqlite');
+    expect(sqlite.getSyncInfo('100')).toBeNull();
+    sqlite.close();
+    expect(fs.existsSync(path.join(dir, 'sync.json'))).toBe(true);
+  });
+});
+
+describe('SyncDatabase schema versions', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-db-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('migrates an unversioned JSON file and keeps a backup', () => {
+    const jsonPath = path.join(dir, 'sync.json');
+    const legacy = {
+      events: {
+        '100': {
+          garoonEventId: '100',
+          googleEventId: 'google-100',
+          lastSynced: '2024-01-01T00:00:00Z',
+          garoonUpdatedAt: '2024-01-01T00:00:00Z',
+        },
+      },
+      logs: [],
+    };
+    fs.writeFileSync(jsonPath, JSON.stringify(legacy));
+
+    const db = openDatabase(dir, 'json');
+    db.logSync('CREATE', '100', 'google-100');
+    db.close();
+
+    const saved = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+    expect(saved.version).toBe(JSON_SCHEMA_VERSION);
+    expect(saved.logs[0].id).toBe(1);
+    expect(saved.events['100'].googleEventId).toBe('google-100');
+
+    const backups = fs.readdirSync(dir).filter((f) => f.endsWith('.bak'));
+    expect(backups).toHaveLength(1);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(dir, backups[0]), 'utf8'))
+    ).toEqual(legacy);
+  });
+
+  it('rejects a JSON file written by a newer version', () => {
+    const jsonPath = path.join(dir, 'sync.json');
+    const content = JSON.stringify({
+      version: JSON_SCHEMA_VERSION + 1,
+      events: {},
+      logs: [],
+      lastLogId: 0,
+    });
+    fs.writeFileSync(jsonPath, content);
+
+    expect(() => openDatabase(dir, 'json')).toThrow(/新しいバージョン/);
+    expect(fs.readFileSync(jsonPath, 'utf8')).toBe(content);
+  });
+
+  it('records the schema version in a new SQLite database', () => {
+    openDatabase(dir, 'sqlite').close();
+
+    const db = new Database(path.join(dir, 'sync.db'));
+    expect(db.pragma('user_version', { simple: true })).toBe(
+      SQLITE_SCHEMA_VERSION
+    );
+    db.close();
+    expect(fs.readdirSync(dir).some((f) => f.endsWith('.bak'))).toBe(false);
+  });
+
+  it('rejects a SQLite database written by a newer version', () => {
+    const db = new Database(path.join(dir, 'sync.db'));
+    db.pragma(`user_version = ${SQLITE_SCHEMA_VERSION + 1}`);
+    db.close();
+
+    expect(() => openDatabase(dir, 'sqlite')).toThrow(/新しいバージョン/);
+  });
+});
+
+describe('SyncDatabase read-only', () => {
+  let dir: string;
+
+  /**
+   * ディレクトリ内のファイル名と内容を取得
+   */
+  function snapshot(): Record<string, string> {
+    return Object.fromEntries(
+      fs
+        .readdirSync(dir)
+        .map((f) => [
+          f,
+          crypto
+            .createHash('sha1')
+            .update(fs.readFileSync(path.join(dir, f)))
+            .digest('hex'),
+        ])
+    );
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-db-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each(BACKENDS)('reads %s data without writing files', (backend) => {
+    const db = openDatabase(dir, backend);
+    db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z');
+    db.close();
+    const before = snapshot();
+
+    const readOnly = openDatabase(dir, backend, true);
+    expect(readOnly.getSyncInfo('100')?.googleEventId).toBe('google-100');
+    readOnly.saveSyncInfo('200', 'google-200', '2024-01-01T00:00:00Z');
+    readOnly.logSync('CREATE', '200', 'google-200');
+    readOnly.close();
+
+    expect(snapshot()).toEqual(before);
+  });
+
+  it('migrates an old SQLite database only in memory', () => {
+    new Database(path.join(dir, 'sync.db')).close();
+    const before = snapshot();
+
+    const db = openDatabase(dir, 'sqlite', true);
+    expect(db.getSyncInfo('100')).toBeNull();
+    db.close();
+
+    expect(snapshot()).toEqual(before);
+  });
+
+  it('reads a JSON file without migrating it to SQLite', () => {
+    fs.writeFileSync(
+      path.join(dir, 'sync.json'),
+      JSON.stringify({
+        events: {
+          '100': {
+            garoonEventId: '100',
+            googleEventId: 'google-100',
+            lastSynced: '2024-01-01T00:00:00Z',
+            garoonUpdatedAt: '2024-01-01T00:00:00Z',
+          },
+        },
+        logs: [],
+      })
+    );
+    const before = snapshot();
+
+    const db = openDatabase(dir, 'sqlite', true);
+    expect(db.getSyncInfo('100')?.googleEventId).toBe('google-100');
+    db.close();
+
+    expect(snapshot()).toEqual(before);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  addDays,
+  endOfDay,
+  formatDateInTimeZone,
+  formatUtcOffset,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  startOfDay,
+  toZonedDateTime,
+} from '../src/common/dateTime';
+
+describe('dateTime', () => {
+  describe('formatDateInTimeZone', () => {
+    it('returns the local date around midnight', () => {
+      // UTCの深夜は東京では翌日の朝
+      const beforeNine = new Date('2024-01-01T23:59:00Z');
+      expect(formatDateInTimeZone(beforeNine, 'Asia/Tokyo')).toBe(
+        '2024-01-02'
+      );
+      expect(formatDateInTimeZone(beforeNine, 'UTC')).toBe('2024-01-01');
+
+      const midnight = new Date('2024-01-01T15:00:00Z');
+      expect(formatDateInTimeZone(midnight, 'Asia/Tokyo')).toBe('2024-01-02');
+      expect(
+        formatDateInTimeZone(new Date(midnight.getTime() - 1), 'Asia/Tokyo')
+      ).toBe('2024-01-01');
+    });
+  });
+
+  describe('addDays', () => {
+    it('crosses month, year and leap-day boundaries', () => {
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+
+    it('is not affected by DST transitions', () => {
+      expect(addDays('2024-03-09', 1)).toBe('2024-03-10');
+      expect(addDays('2024-03-10', 1)).toBe('2024-03-11');
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('follows DST', () => {
+      const winter = new Date('2024-01-15T12:00:00Z');
+      const summer = new Date('2024-07-15T12:00:00Z');
+
+      expect(getTimeZoneOffset(winter, 'America/New_York')).toBe(-300);
+      expect(getTimeZoneOffset(summer, 'America/New_York')).toBe(-240);
+      expect(getTimeZoneOffset(summer, 'Asia/Tokyo')).toBe(540);
+      expect(getTimeZoneOffset(winter, 'Asia/Kolkata')).toBe(330);
+    });
+  });
+
+  describe('formatUtcOffset', () => {
+    it('formats positive, negative and fractional offsets', () => {
+      expect(formatUtcOffset(540)).toBe('+09:00');
+      expect(formatUtcOffset(-240)).toBe('-04:00');
+      expect(formatUtcOffset(330)).toBe('+05:30');
+      expect(formatUtcOffset(0)).toBe('+00:00');
+    });
+  });
+
+  describe('toZonedDateTime', () => {
+    it('uses the offset in effect on that day', () => {
+      expect(startOfDay('2024-01-01', 'Asia/Tokyo')).toBe(
+        '2024-01-01T00:00:00+09:00'
+      );
+      expect(endOfDay('2024-01-01', 'Asia/Tokyo')).toBe(
+        '2024-01-01T23:59:59+09:00'
+      );
+      expect(startOfDay('2024-07-01', 'Europe/London')).toBe(
+        '2024-07-01T00:00:00+01:00'
+      );
+    });
+
+    it('handles days where the offset changes', () => {
+      // 2024-03-10 午前2時に夏時間開始
+      expect(startOfDay('2024-03-10', 'America/New_York')).toBe(
+        '2024-03-10T00:00:00-05:00'
+      );
+      expect(endOfDay('2024-03-10', 'America/New_York')).toBe(
+        '2024-03-10T23:59:59-04:00'
+      );
+    });
+
+    it('moves a time skipped by DST forward', () => {
+      expect(
+        toZonedDateTime('2024-03-10', '02:30:00', 'America/New_York')
+      ).toBe('2024-03-10T03:30:00-04:00');
+      // 深夜0時に夏時間が始まるタイムゾーンでは日の始まりが午前1時になる
+      expect(startOfDay('2024-09-08', 'America/Santiago')).toBe(
+        '2024-09-08T01:00:00-03:00'
+      );
+    });
+
+    it('uses the first occurrence of a repeated time', () => {
+      expect(
+        toZonedDateTime('2024-11-03', '01:30:00', 'America/New_York')
+      ).toBe('2024-11-03T01:30:00-04:00');
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('accepts IANA names and rejects unknown ones', () => {
+      expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Tokyo/Japan')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { evaluateDeletionSafety } from '../src/common/deletionSafety';
+import { DeletionSafetyConfig } from '../src/types/config';
+
+describe('evaluateDeletionSafety', () => {
+  const config: DeletionSafetyConfig = {
+    maxDeletions: 5,
+    maxFetchDropRatio: 0.5,
+  };
+
+  const base = {
+    failedTargets: [],
+    fetchedCount: 100,
+    previousFetchCount: 100,
+    deletionCount: 2,
+    approved: false,
+  };
+
+  it('allows a small number of deletions', () => {
+    expect(evaluateDeletionSafety(base, config)).toEqual({
+      allowed: true,
+      reasons: [],
+    });
+  });
+
+  it('blocks deletions when a target failed, even if approved', () => {
+    const result = evaluateDeletionSafety(
+      { ...base, failedTargets: ['organization:4'], approved: true },
+      config
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.reasons[0]).toContain('organization:4');
+  });
+
+  it('blocks deletions when the fetched count drops sharply', () => {
+    const result = evaluateDeletionSafety(
+      { ...base, fetchedCount: 0 },
+      config
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.reasons[0]).toContain('100件 -> 0件');
+  });
+
+  it('blocks deletions above the configured threshold', () => {
+    const result = evaluateDeletionSafety(
+      { ...base, deletionCount: 6 },
+      config
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.reasons[0]).toContain('上限: 5件');
+  });
+
+  it('allows threshold violations once approved', () => {
+    const result = evaluateDeletionSafety(
+      { ...base, deletionCount: 6, approved: true },
+      config
+    );
+
+    expect(result.allowed).toBe(true);
+  });
+});
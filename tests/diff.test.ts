@@ -0,0 +1,82 @@
+import { diffGoogleEvents } from '../src/google/diff';
+import { GoogleEvent } from '../src/types/google';
+
+describe('diffGoogleEvents', () => {
+  const base: GoogleEvent = {
+    summary: '会議: 定例',
+    description: 'メモ',
+    location: '会議室A',
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    visibility: 'default',
+  };
+
+  it('lists every populated field for a new event', () => {
+    const diffs = diffGoogleEvents(null, base);
+
+    expect(diffs.map((d) => d.field)).toEqual([
+      'summary',
+      'description',
+      'location',
+      'start',
+      'end',
+    ]);
+    expect(diffs[0]).toEqual({ field: 'summary', after: '会議: 定例' });
+  });
+
+  it('returns only changed fields', () => {
+    const after: GoogleEvent = {
+      ...base,
+      location: '会議室B',
+      end: { dateTime: '2024-01-10T12:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    };
+
+    expect(diffGoogleEvents(base, after)).toEqual([
+      { field: 'location', before: '会議室A', after: '会議室B' },
+      {
+        field: 'end',
+        before: '2024-01-10T11:00:00+09:00 (Asia/Tokyo)',
+        after: '2024-01-10T12:00:00+09:00 (Asia/Tokyo)',
+      },
+    ]);
+  });
+
+  it('treats default visibility as unset', () => {
+    const fromApi: GoogleEvent = { ...base, visibility: undefined };
+
+    expect(diffGoogleEvents(fromApi, base)).toEqual([]);
+  });
+
+  it('compares styles and ignores API defaults', () => {
+    const fromApi: GoogleEvent = {
+      ...base,
+      reminders: { useDefault: true },
+      transparency: 'opaque',
+      eventType: 'default',
+    };
+    const styled: GoogleEvent = {
+      ...base,
+      colorId: '11',
+      reminders: { useDefault: false, overrides: [] },
+      transparency: 'transparent',
+    };
+
+    expect(diffGoogleEvents(fromApi, base)).toEqual([]);
+    expect(diffGoogleEvents(fromApi, styled)).toEqual([
+      { field: 'colorId', after: '11' },
+      { field: 'reminders', after: 'なし' },
+      { field: 'transparency', after: 'transparent' },
+    ]);
+  });
+
+  it('shows tentative events and treats confirmed as unset', () => {
+    const tentative: GoogleEvent = { ...base, status: 'tentative' };
+
+    expect(diffGoogleEvents({ ...base, status: 'confirmed' }, base)).toEqual(
+      []
+    );
+    expect(diffGoogleEvents(tentative, base)).toEqual([
+      { field: 'status', before: 'tentative' },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  evaluateEventFilter,
+  validateEventFilter,
+} from '../src/common/eventFilter';
+import { EventFilterConfig } from '../src/types/config';
+import { GaroonEvent } from '../src/types/garoon';
+
+describe('evaluateEventFilter', () => {
+  const event: GaroonEvent = {
+    id: '100',
+    eventMenu: '会議',
+    subject: '【社外】定例',
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:30:00+09:00', timeZone: 'Asia/Tokyo' },
+    isAllDay: false,
+    attendees: [
+      { id: '1', code: 'sato', name: '佐藤', type: 'USER' },
+      { id: '3', code: 'room-a', name: '会議室A', type: 'FACILITY' },
+    ],
+    visibilityType: 'PUBLIC',
+    eventType: 'REGULAR',
+    updatedAt: '2024-01-01T00:00:00Z',
+    createdAt: '2024-01-01T00:00:00Z',
+  };
+
+  const evaluate = (filter: EventFilterConfig, target = event) =>
+    evaluateEventFilter(target, filter, 'Asia/Tokyo');
+
+  it('uses the default action when no rule matches', () => {
+    expect(evaluate({ defaultAction: 'include', rules: [] })).toEqual({
+      included: true,
+    });
+    expect(
+      evaluate({
+        defaultAction: 'exclude',
+        rules: [{ action: 'include', eventMenus: ['外出'] }],
+      })
+    ).toEqual({ included: false });
+  });
+
+  it('applies the first matching rule', () => {
+    const filter: EventFilterConfig = {
+      defaultAction: 'include',
+      rules: [
+        { name: 'keep-sato', action: 'include', attendees: ['sato'] },
+        { name: 'no-external', action: 'exclude', subjectPattern: '^【社外】' },
+      ],
+    };
+
+    expect(evaluate(filter)).toEqual({ included: true, rule: 'keep-sato' });
+    expect(evaluate({ ...filter, rules: filter.rules.slice(1) })).toEqual({
+      included: false,
+      rule: 'no-external',
+    });
+  });
+
+  it('requires every condition of a rule to match', () => {
+    const rule = {
+      action: 'exclude' as const,
+      facilities: ['会議室A'],
+      eventTypes: ['REGULAR' as const],
+      minDurationMinutes: 60,
+      maxDurationMinutes: 90,
+    };
+
+    expect(evaluate({ defaultAction: 'include', rules: [rule] })).toEqual({
+      included: false,
+      rule: '#1',
+    });
+    expect(
+      evaluate({
+        defaultAction: 'include',
+        rules: [{ ...rule, maxDurationMinutes: 60 }],
+      }).included
+    ).toBe(true);
+    expect(
+      evaluate({
+        defaultAction: 'include',
+        rules: [{ ...rule, facilities: ['佐藤'] }],
+      }).included
+    ).toBe(true);
+  });
+
+  it('matches facilities returned in the facilities field', () => {
+    const filter: EventFilterConfig = {
+      defaultAction: 'include',
+      rules: [{ action: 'exclude', facilities: ['room-b'] }],
+    };
+
+    expect(evaluate(filter).included).toBe(true);
+    expect(
+      evaluate(filter, {
+        ...event,
+        facilities: [{ id: '4', code: 'room-b', name: '会議室B' }],
+      }).included
+    ).toBe(false);
+  });
+
+  it('matches the start time in the sync time zone', () => {
+    const morning = {
+      defaultAction: 'include' as const,
+      rules: [
+        {
+          action: 'exclude' as const,
+          startTimeFrom: '09:00',
+          startTimeTo: '10:00',
+        },
+      ],
+    };
+    expect(evaluate(morning).included).toBe(true);
+    expect(
+      evaluateEventFilter(
+        {
+          ...event,
+          start: { ...event.start, dateTime: '2024-01-10T00:30:00Z' },
+        },
+        morning,
+        'Asia/Tokyo'
+      ).included
+    ).toBe(false);
+
+    const overnight = {
+      defaultAction: 'include' as const,
+      rules: [
+        {
+          action: 'exclude' as const,
+          startTimeFrom: '22:00',
+          startTimeTo: '06:00',
+        },
+      ],
+    };
+    expect(
+      evaluate(overnight, {
+        ...event,
+        start: { ...event.start, dateTime: '2024-01-10T05:00:00+09:00' },
+      }).included
+    ).toBe(false);
+    expect(
+      evaluate(overnight, { ...event, isAllDay: true, eventType: 'ALL_DAY' })
+        .included
+    ).toBe(true);
+  });
+});
+
+describe('validateEventFilter', () => {
+  it('rejects invalid rules', () => {
+    expect(() =>
+      validateEventFilter({
+        defaultAction: 'include',
+        rules: [{ action: 'exclude', subjectPattern: '(' }],
+      })
+    ).toThrow(/正規表現/);
+    expect(() =>
+      validateEventFilter({
+        defaultAction: 'include',
+        rules: [{ name: 'night', action: 'exclude', startTimeFrom: '25:00' }],
+      })
+    ).toThrow(/night.*HH:mm/);
+    expect(() =>
+      validateEventFilter({
+        defaultAction: 'skip' as never,
+        rules: [],
+      })
+    ).toThrow(/defaultAction/);
+  });
+});
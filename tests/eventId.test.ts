@@ -0,0 +1,49 @@
+import {
+  getCandidateEventId,
+  getDeterministicEventId,
+} from '../src/google/eventId';
+
+describe('getDeterministicEventId', () => {
+  it('returns the same ID for the same Garoon event and route', () => {
+    expect(getDeterministicEventId('100', 'default')).toBe(
+      getDeterministicEventId('100', 'default')
+    );
+  });
+
+  it('returns different IDs per route and per Garoon event', () => {
+    const id = getDeterministicEventId('100', 'default');
+
+    expect(getDeterministicEventId('100', 'team')).not.toBe(id);
+    expect(getDeterministicEventId('101', 'default')).not.toBe(id);
+  });
+
+  it('uses a separate ID per event type and keeps the ID of normal events', () => {
+    const id = getDeterministicEventId('100', 'default');
+
+    expect(getDeterministicEventId('100', 'default', 'default')).toBe(id);
+    expect(getDeterministicEventId('100', 'default', 'outOfOffice')).not.toBe(
+      id
+    );
+  });
+
+  it('only uses characters allowed in Google event IDs', () => {
+    const id = getDeterministicEventId('100', 'default');
+
+    expect(id).toMatch(/^[a-v0-9]{5,1024}$/);
+  });
+});
+
+describe('getCandidateEventId', () => {
+  it('keeps the normal ID for the first candidate only', () => {
+    const id = getDeterministicEventId('100', 'default');
+
+    expect(getCandidateEventId('100', 'default', 0)).toBe(id);
+    expect(getCandidateEventId('100', 'default', 1)).not.toBe(id);
+    expect(getCandidateEventId('100', 'default', 1)).not.toBe(
+      getCandidateEventId('100', 'default', 2)
+    );
+    expect(getCandidateEventId('100', 'default', 1)).toMatch(
+      /^[a-v0-9]{5,1024}$/
+    );
+  });
+});
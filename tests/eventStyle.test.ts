@@ -0,0 +1,129 @@
+import {
+  applyEventStyle,
+  resolveEventStyle,
+  validateEventStyles,
+} from '../src/common/eventStyle';
+import { EventStyleRule } from '../src/types/config';
+import { GaroonEvent } from '../src/types/garoon';
+import { GoogleEvent } from '../src/types/google';
+
+describe('resolveEventStyle', () => {
+  const event: GaroonEvent = {
+    id: '100',
+    eventMenu: '休み',
+    subject: '有給',
+    start: { dateTime: '2024-01-10T00:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T23:59:59+09:00', timeZone: 'Asia/Tokyo' },
+    isAllDay: true,
+    attendees: [],
+    visibilityType: 'PUBLIC',
+    eventType: 'ALL_DAY',
+    updatedAt: '2024-01-01T00:00:00Z',
+    createdAt: '2024-01-01T00:00:00Z',
+  };
+
+  const rules: EventStyleRule[] = [
+    { eventTypes: ['ALL_DAY'], transparency: 'transparent', reminders: [] },
+    { eventMenus: ['会議'], colorId: '9' },
+    {
+      eventMenus: ['休み'],
+      colorId: '8',
+      transparency: 'opaque',
+      eventType: 'outOfOffice',
+      outOfOffice: { autoDeclineMode: 'declineOnlyNewConflictingInvitations' },
+    },
+    { eventMenus: ['休み'], outOfOffice: { declineMessage: '不在です' } },
+  ];
+
+  it('layers matching rules with later rules taking precedence', () => {
+    expect(resolveEventStyle(event, rules)).toEqual({
+      colorId: '8',
+      reminders: [],
+      transparency: 'opaque',
+      eventType: 'outOfOffice',
+      outOfOffice: {
+        autoDeclineMode: 'declineOnlyNewConflictingInvitations',
+        declineMessage: '不在です',
+      },
+    });
+  });
+
+  it('returns an empty style when no rule matches', () => {
+    expect(
+      resolveEventStyle(
+        { ...event, eventMenu: undefined, eventType: 'REGULAR' },
+        rules
+      )
+    ).toEqual({});
+  });
+});
+
+describe('applyEventStyle', () => {
+  const base: GoogleEvent = {
+    summary: '定例',
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+  };
+
+  it('sets Google fields from the style', () => {
+    const event = { ...base };
+    applyEventStyle(event, {
+      colorId: '5',
+      reminders: [{ method: 'popup', minutes: 10 }],
+      transparency: 'transparent',
+      eventType: 'default',
+    });
+
+    expect(event).toEqual({
+      ...base,
+      colorId: '5',
+      reminders: {
+        useDefault: false,
+        overrides: [{ method: 'popup', minutes: 10 }],
+      },
+      transparency: 'transparent',
+    });
+  });
+
+  it('sets out-of-office properties only for out-of-office events', () => {
+    const outOfOffice = { autoDeclineMode: 'declineNone' as const };
+    const normal = { ...base };
+    const absent = { ...base };
+
+    applyEventStyle(normal, { outOfOffice });
+    applyEventStyle(absent, { eventType: 'outOfOffice', outOfOffice });
+
+    expect(normal.outOfOfficeProperties).toBeUndefined();
+    expect(absent).toMatchObject({
+      eventType: 'outOfOffice',
+      outOfOfficeProperties: { autoDeclineMode: 'declineNone' },
+    });
+  });
+});
+
+describe('validateEventStyles', () => {
+  it('rejects values Google does not accept', () => {
+    expect(() => validateEventStyles([{ colorId: '12' }])).toThrow(/colorId/);
+    expect(() =>
+      validateEventStyles([
+        { reminders: [{ method: 'sms' as never, minutes: 5 }] },
+      ])
+    ).toThrow(/リマインダー/);
+    expect(() =>
+      validateEventStyles([{ eventType: 'workingLocation' as never }])
+    ).toThrow(/eventType/);
+    expect(() =>
+      validateEventStyles([
+        { outOfOffice: { autoDeclineMode: 'declineSome' as never } },
+      ])
+    ).toThrow(/autoDeclineMode/);
+    expect(() =>
+      validateEventStyles([{ outOfOffice: { declineMessage: '{{/if}}' } }])
+    ).toThrow(/テンプレート/);
+    expect(() =>
+      validateEventStyles([
+        { colorId: '11', reminders: [{ method: 'email', minutes: 1440 }] },
+      ])
+    ).not.toThrow();
+  });
+});
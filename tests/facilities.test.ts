@@ -0,0 +1,35 @@
+import { getEventFacilities } from '../src/common/facilities';
+import { GaroonEvent } from '../src/types/garoon';
+
+describe('getEventFacilities', () => {
+  const event: GaroonEvent = {
+    id: '100',
+    subject: '定例',
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    isAllDay: false,
+    attendees: [
+      { id: '1', code: 'sato', name: '佐藤', type: 'USER' },
+      { id: '10', code: 'room-a', name: '会議室A', type: 'FACILITY' },
+      { id: '11', code: 'room-b', name: '会議室B', type: 'FACILITY' },
+    ],
+    facilities: [{ id: '10', code: 'room-a', name: '会議室A' }],
+    visibilityType: 'PUBLIC',
+    eventType: 'REGULAR',
+    updatedAt: '2024-01-01T00:00:00Z',
+    createdAt: '2024-01-01T00:00:00Z',
+  };
+
+  it('merges reserved facilities and facility attendees without duplicates', () => {
+    expect(getEventFacilities(event)).toEqual([
+      { id: '10', code: 'room-a', name: '会議室A' },
+      { id: '11', code: 'room-b', name: '会議室B' },
+    ]);
+  });
+
+  it('returns an empty list when no facility is reserved', () => {
+    expect(
+      getEventFacilities({ ...event, attendees: [], facilities: undefined })
+    ).toEqual([]);
+  });
+});
@@ -1,3 +1,4 @@
+import { AxiosInstance } from 'axios';
 import { GaroonClient } from '../src/common/garoon';
 import { GaroonAuthConfig } from '../src/types/garoon';
 
@@ -72,5 +73,69 @@ describe('GaroonClient', () => {
         client.getSchedule('2024-01-01', '20240131')
       ).rejects.toThrow('日付フォーマットが不正です');
     });
+
+    it('requests the range in the configured time zone', async () => {
+      const config: GaroonAuthConfig = {
+        baseUrl: 'https://example.cybozu.com',
+        apiToken: 'test-token',
+        targetType: 'user',
+        targetId: '2',
+      };
+      const client = new GaroonClient(config, 'America/New_York');
+      const http = (client as unknown as { client: AxiosInstance }).client;
+      const get = jest
+        .spyOn(http, 'get')
+        .mockResolvedValue({ data: { events: [], hasNext: false } });
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      await client.getSchedule('2024-03-10', '2024-03-10');
+
+      expect(get.mock.calls[0][1]?.params).toMatchObject({
+        rangeStart: '2024-03-10T00:00:00-05:00',
+        rangeEnd: '2024-03-10T23:59:59-04:00',
+      });
+      jest.restoreAllMocks();
+    });
+
+    it('expands a facility group into its facilities', async () => {
+      const config: GaroonAuthConfig = {
+        baseUrl: 'https://example.cybozu.com',
+        apiToken: 'test-token',
+      };
+      const client = new GaroonClient(config);
+      const http = (client as unknown as { client: AxiosInstance }).client;
+      const shared = { id: '100', subject: '定例' };
+      const get = jest.spyOn(http, 'get').mockImplementation(async (url) => {
+        if (url === '/api/v1/schedule/facilityGroups/3/facilities') {
+          return {
+            data: {
+              facilities: [
+                { id: '10', name: '会議室A' },
+                { id: '11', name: '会議室B' },
+              ],
+              hasNext: false,
+            },
+          };
+        }
+        return { data: { events: [shared], hasNext: false } };
+      });
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      const result = await client.getScheduleWithStatus(
+        '2024-01-10',
+        '2024-01-10',
+        [{ type: 'facilityGroup', id: '3' }]
+      );
+
+      const eventRequests = get.mock.calls.filter(
+        ([url]) => url === '/api/v1/schedule/events'
+      );
+      expect(eventRequests.map(([, options]) => options?.params)).toEqual([
+        expect.objectContaining({ target: '10', targetType: 'facility' }),
+        expect.objectContaining({ target: '11', targetType: 'facility' }),
+      ]);
+      expect(result.events).toHaveLength(1);
+      jest.restoreAllMocks();
+    });
   });
 });
@@ -1,17 +1,207 @@
 import { GoogleCalendarClient } from '../src/google/calendar';
 import { GoogleCalendarConfig } from '../src/types/google';
 
+const mockEvents = {
+  list: jest.fn(),
+  insert: jest.fn(),
+  update: jest.fn(),
+};
+
+jest.mock('googleapis', () => ({
+  google: { calendar: jest.fn(() => ({ events: mockEvents })) },
+}));
+jest.mock('../src/google/auth', () => ({
+  createGoogleAuth: jest.fn(() => ({ auth: {} })),
+}));
+
+/**
+ * ステータスコード付きのAPIエラーを作成
+ * @param code ステータスコード
+ * @param message エラーメッセージ
+ */
+function apiError(code: number, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
 describe('GoogleCalendarClient', () => {
+  const config: GoogleCalendarConfig = {
+    calendarId: 'primary',
+    // 存在するファイルであれば検証を通過する
+    credentials: 'package.json',
+  };
+
+  beforeEach(() => {
+    Object.values(mockEvents).forEach((fn) => fn.mockReset());
+  });
+
   describe('constructor', () => {
     it('throws error when credentials file does not exist', () => {
-      const config: GoogleCalendarConfig = {
+      const missing: GoogleCalendarConfig = {
         calendarId: 'primary',
         credentials: 'non-existent-file.json',
       };
 
-      expect(() => new GoogleCalendarClient(config)).toThrow(
+      expect(() => new GoogleCalendarClient(missing)).toThrow(
         /non-existent-file\.json/
       );
     });
   });
+
+  describe('createEvent', () => {
+    const event = {
+      id: 'g100',
+      summary: '打ち合わせ',
+      start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+      end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    };
+
+    it('adopts an existing event with the same ID', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      mockEvents.insert.mockRejectedValueOnce(
+        apiError(409, 'The requested identifier already exists')
+      );
+      mockEvents.update.mockResolvedValueOnce({ data: { id: 'g100' } });
+
+      const eventId = await new GoogleCalendarClient(config).createEvent(event);
+
+      expect(eventId).toBe('g100');
+      expect(mockEvents.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          calendarId: 'primary',
+          eventId: 'g100',
+          requestBody: expect.objectContaining({
+            summary: '打ち合わせ',
+            // 削除済みのイベントも復元する
+            status: 'confirmed',
+          }),
+        })
+      );
+    });
+
+    it('does not adopt an event when no ID was requested', async () => {
+      mockEvents.insert.mockRejectedValueOnce(apiError(409, 'Conflict'));
+
+      const client = new GoogleCalendarClient(config);
+
+      await expect(
+        client.createEvent({ ...event, id: undefined })
+      ).rejects.toThrow(/イベントの作成に失敗しました/);
+      expect(mockEvents.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listAllEvents', () => {
+    it('follows page tokens until the last page', async () => {
+      mockEvents.list
+        .mockResolvedValueOnce({
+          data: { items: [{ id: 'a' }], nextPageToken: 'page-2' },
+        })
+        .mockResolvedValueOnce({ data: { items: [{ id: 'b' }] } });
+
+      const events = await new GoogleCalendarClient(config).listAllEvents();
+
+      expect(events.map((e) => e.id)).toEqual(['a', 'b']);
+      expect(mockEvents.list).toHaveBeenCalledTimes(2);
+      expect(mockEvents.list.mock.calls[1][0]).toMatchObject({
+        calendarId: 'primary',
+        pageToken: 'page-2',
+      });
+    });
+  });
+
+  describe('listSyncedEvents', () => {
+    it('filters by the Garoon event ID on the server', async () => {
+      mockEvents.list.mockResolvedValueOnce({
+        data: {
+          items: [
+            {
+              id: 'a',
+              extendedProperties: { private: { garoonEventId: '100' } },
+            },
+          ],
+        },
+      });
+
+      const events = await new GoogleCalendarClient(config).listSyncedEvents(
+        '100'
+      );
+
+      expect(events.map((e) => e.id)).toEqual(['a']);
+      expect(mockEvents.list.mock.calls[0][0]).toMatchObject({
+        privateExtendedProperty: ['garoonEventId=100'],
+      });
+    });
+
+    it('lists only events synced from Garoon', async () => {
+      mockEvents.list.mockResolvedValueOnce({
+        data: {
+          items: [
+            {
+              id: 'a',
+              extendedProperties: { private: { garoonEventId: '100' } },
+            },
+            { id: 'b' },
+          ],
+        },
+      });
+
+      const events = await new GoogleCalendarClient(config).listSyncedEvents();
+
+      expect(events.map((e) => e.id)).toEqual(['a']);
+    });
+  });
+
+  describe('listChanges', () => {
+    it('returns the sync token of the last page', async () => {
+      mockEvents.list
+        .mockResolvedValueOnce({
+          data: { items: [{ id: 'a' }], nextPageToken: 'page-2' },
+        })
+        .mockResolvedValueOnce({
+          data: { items: [{ id: 'b' }], nextSyncToken: 'token-2' },
+        });
+
+      const result = await new GoogleCalendarClient(config).listChanges(
+        'token-1'
+      );
+
+      expect(result.events.map((e) => e.id)).toEqual(['a', 'b']);
+      expect(result).toMatchObject({
+        nextSyncToken: 'token-2',
+        fullSync: false,
+      });
+      expect(mockEvents.list.mock.calls[0][0]).toMatchObject({
+        syncToken: 'token-1',
+        showDeleted: true,
+      });
+    });
+
+    it('falls back to a full sync when the sync token has expired', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockEvents.list
+        .mockRejectedValueOnce(apiError(410, 'Sync token is no longer valid'))
+        .mockResolvedValueOnce({
+          data: { items: [{ id: 'a' }], nextSyncToken: 'token-2' },
+        });
+
+      const result = await new GoogleCalendarClient(config).listChanges(
+        'token-1'
+      );
+
+      expect(result).toMatchObject({
+        nextSyncToken: 'token-2',
+        fullSync: true,
+      });
+      expect(mockEvents.list.mock.calls[1][0].syncToken).toBeUndefined();
+    });
+
+    it('does not retry other errors as a full sync', async () => {
+      mockEvents.list.mockRejectedValueOnce(apiError(403, 'Forbidden'));
+
+      await expect(
+        new GoogleCalendarClient(config).listChanges('token-1')
+      ).rejects.toThrow(/変更されたイベントの取得に失敗しました/);
+      expect(mockEvents.list).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,42 @@
+import {
+  applyMigrations,
+  assertSupportedVersion,
+  getLatestVersion,
+  Migration,
+} from '../src/common/migrations';
+
+describe('migrations', () => {
+  const migrations: Migration<string[]>[] = [
+    { version: 2, description: 'second', migrate: (t) => t.push('v2') },
+    { version: 1, description: 'first', migrate: (t) => t.push('v1') },
+    { version: 3, description: 'third', migrate: (t) => t.push('v3') },
+  ];
+
+  it('returns the latest registered version', () => {
+    expect(getLatestVersion(migrations)).toBe(3);
+    expect(getLatestVersion([])).toBe(0);
+  });
+
+  it('applies only newer migrations in version order', () => {
+    const applied: string[] = [];
+
+    expect(applyMigrations(applied, 1, migrations)).toBe(3);
+    expect(applied).toEqual(['v2', 'v3']);
+  });
+
+  it('does nothing when already at the latest version', () => {
+    const applied: string[] = [];
+
+    expect(applyMigrations(applied, 3, migrations)).toBe(3);
+    expect(applied).toEqual([]);
+  });
+
+  it('rejects data written by a newer version', () => {
+    expect(() =>
+      assertSupportedVersion(3, migrations, 'sync.json')
+    ).not.toThrow();
+    expect(() => assertSupportedVersion(4, migrations, 'sync.json')).toThrow(
+      /新しいバージョン/
+    );
+  });
+});
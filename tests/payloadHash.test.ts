@@ -0,0 +1,55 @@
+import { hashGoogleEvent, hashGoogleEvents } from '../src/google/payloadHash';
+import { GoogleEvent } from '../src/types/google';
+
+describe('hashGoogleEvent', () => {
+  const event: GoogleEvent = {
+    summary: '会議: 定例',
+    description: 'メモ\n\n(ガルーンから同期)',
+    location: '会議室A',
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    extendedProperties: {
+      private: {
+        garoonEventId: '100',
+        garoonUpdatedAt: '2024-01-01T00:00:00Z',
+      },
+    },
+  };
+
+  it('ignores the event ID and key order', () => {
+    const reordered: GoogleEvent = {
+      id: 'google-100',
+      end: event.end,
+      start: event.start,
+      location: event.location,
+      description: event.description,
+      summary: event.summary,
+      extendedProperties: event.extendedProperties,
+    };
+
+    expect(hashGoogleEvent(reordered)).toBe(hashGoogleEvent(event));
+  });
+
+  it('changes when the rendered content changes', () => {
+    expect(hashGoogleEvent({ ...event, summary: '定例' })).not.toBe(
+      hashGoogleEvent(event)
+    );
+    expect(
+      hashGoogleEvent({
+        ...event,
+        start: { ...event.start, timeZone: 'UTC' },
+      })
+    ).not.toBe(hashGoogleEvent(event));
+  });
+
+  it('hashes several events including their order', () => {
+    const other: GoogleEvent = { ...event, summary: '定例 (候補2/2)' };
+
+    expect(hashGoogleEvents([event, other])).toBe(
+      hashGoogleEvents([{ ...event, id: 'google-100' }, other])
+    );
+    expect(hashGoogleEvents([other, event])).not.toBe(
+      hashGoogleEvents([event, other])
+    );
+  });
+});
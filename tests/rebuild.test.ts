@@ -0,0 +1,89 @@
+import { rebuildMappings } from '../src/google/rebuild';
+import { GoogleEvent } from '../src/types/google';
+
+describe('rebuildMappings', () => {
+  const createEvent = (
+    id: string,
+    garoonEventId: string | undefined,
+    overrides: Partial<GoogleEvent> = {},
+    garoonUpdatedAt = '2024-01-01T00:00:00Z'
+  ): GoogleEvent => ({
+    id,
+    summary: `event ${id}`,
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    extendedProperties: garoonEventId
+      ? { private: { garoonEventId, garoonUpdatedAt } }
+      : undefined,
+    ...overrides,
+  });
+
+  it('rebuilds mappings from the garoonEventId extended property', () => {
+    const { mappings, duplicates } = rebuildMappings([
+      createEvent('g1', '100'),
+      createEvent('g2', undefined),
+      createEvent('g3', '101', { status: 'cancelled' }),
+      createEvent('g4_20240110T010000Z', '102', { recurringEventId: 'g4' }),
+    ]);
+
+    expect(mappings).toEqual([
+      {
+        garoonEventId: '100',
+        googleEventId: 'g1',
+        garoonUpdatedAt: '2024-01-01T00:00:00Z',
+        eventStart: '2024-01-10T10:00:00+09:00',
+        eventEnd: '2024-01-10T11:00:00+09:00',
+        recurring: false,
+      },
+    ]);
+    expect(duplicates).toEqual([]);
+  });
+
+  it('keeps the copy with the newest Garoon update and reports the rest', () => {
+    const { mappings, duplicates } = rebuildMappings([
+      createEvent('old', '100', {}, '2024-01-01T00:00:00Z'),
+      createEvent('new', '100', {}, '2024-02-01T00:00:00Z'),
+      createEvent('older', '100', {}, '2023-12-01T00:00:00Z'),
+    ]);
+
+    expect(mappings).toHaveLength(1);
+    expect(mappings[0].googleEventId).toBe('new');
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0].extras.map((e) => e.id)).toEqual(['old', 'older']);
+  });
+
+  it('records later candidates of a temporary event instead of duplicates', () => {
+    const candidate = (id: string, index: string) =>
+      createEvent(id, '100', {
+        status: 'tentative',
+        extendedProperties: {
+          private: {
+            garoonEventId: '100',
+            garoonUpdatedAt: '2024-01-01T00:00:00Z',
+            garoonCandidateIndex: index,
+          },
+        },
+      });
+
+    const { mappings, duplicates } = rebuildMappings([
+      candidate('c0', '0'),
+      candidate('c1', '1'),
+      candidate('c2', '2'),
+    ]);
+
+    expect(mappings).toHaveLength(1);
+    expect(mappings[0].googleEventId).toBe('c0');
+    expect(mappings[0].candidateEventIds).toEqual(['c1', 'c2']);
+    expect(duplicates).toEqual([]);
+  });
+
+  it('does not record times for recurring series', () => {
+    const { mappings } = rebuildMappings([
+      createEvent('series', '100', { recurrence: ['RRULE:FREQ=DAILY'] }),
+    ]);
+
+    expect(mappings[0].eventStart).toBeUndefined();
+    expect(mappings[0].eventEnd).toBeUndefined();
+    expect(mappings[0].recurring).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  buildRecurrence,
+  findFirstOccurrenceDate,
+  getInstanceId,
+  hasOccurrenceInRange,
+  matchesRepeatRule,
+} from '../src/google/recurrence';
+import { GaroonRepeatInfo } from '../src/types/garoon';
+
+describe('recurrence', () => {
+  const weekly: GaroonRepeatInfo = {
+    type: 'EVERY_WEEK',
+    period: { start: '2024-01-03', end: '2024-03-31' },
+    time: { start: '10:00:00', end: '11:00:00' },
+    timeZone: 'Asia/Tokyo',
+    isAllDay: false,
+    isStartOnly: false,
+    dayOfWeek: 'MON',
+  };
+
+  describe('buildRecurrence', () => {
+    it('maps a weekly rule with UNTIL in UTC', () => {
+      expect(buildRecurrence(weekly, 'Asia/Tokyo', false)).toEqual([
+        'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20240331T145959Z',
+      ]);
+    });
+
+    it('maps nth-week and end-of-month rules', () => {
+      expect(
+        buildRecurrence(
+          { ...weekly, type: 'EVERY_LASTWEEK', dayOfWeek: 'FRI' },
+          'Asia/Tokyo',
+          false
+        )
+      ).toEqual(['RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20240331T145959Z']);
+
+      expect(
+        buildRecurrence(
+          { ...weekly, type: 'EVERY_MONTH', dayOfMonth: 'EOM' },
+          'Asia/Tokyo',
+          true
+        )
+      ).toEqual(['RRULE:FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20240331']);
+    });
+
+    it('uses the daylight saving offset of the last day for UNTIL', () => {
+      expect(
+        buildRecurrence(
+          {
+            ...weekly,
+            period: { start: '2024-01-01', end: '2024-07-31' },
+            timeZone: 'America/New_York',
+          },
+          'America/New_York',
+          false
+        )
+      ).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20240801T035959Z']);
+    });
+
+    it('returns null when the rule is incomplete', () => {
+      expect(
+        buildRecurrence({ ...weekly, dayOfWeek: undefined }, 'Asia/Tokyo', false)
+      ).toBeNull();
+    });
+  });
+
+  describe('hasOccurrenceInRange', () => {
+    it('detects occurrences within the range and period', () => {
+      const monthly: GaroonRepeatInfo = {
+        ...weekly,
+        type: 'EVERY_MONTH',
+        dayOfMonth: '31',
+      };
+
+      expect(hasOccurrenceInRange(monthly, '2024-03-01', '2024-03-30')).toBe(
+        false
+      );
+      expect(hasOccurrenceInRange(monthly, '2024-03-02', '2024-03-31')).toBe(
+        true
+      );
+      expect(hasOccurrenceInRange(weekly, '2024-04-01', '2024-04-30')).toBe(
+        false
+      );
+    });
+
+    it('ignores deleted occurrences', () => {
+      expect(
+        hasOccurrenceInRange(
+          {
+            ...weekly,
+            exclusiveDateTimes: [
+              {
+                start: '2024-01-08T10:00:00+09:00',
+                end: '2024-01-08T11:00:00+09:00',
+              },
+            ],
+          },
+          '2024-01-08',
+          '2024-01-14'
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('findFirstOccurrenceDate', () => {
+    it('skips to the first date matching the rule', () => {
+      expect(findFirstOccurrenceDate(weekly)).toBe('2024-01-08');
+    });
+
+    it('finds the second Tuesday of the month', () => {
+      expect(
+        findFirstOccurrenceDate({
+          ...weekly,
+          type: 'EVERY_2NDWEEK',
+          dayOfWeek: 'TUE',
+        })
+      ).toBe('2024-01-09');
+    });
+  });
+
+  describe('matchesRepeatRule', () => {
+    it('excludes weekends for weekday rules', () => {
+      const rule = { ...weekly, type: 'EVERY_WEEKDAY' as const };
+      expect(matchesRepeatRule('2024-01-05', rule)).toBe(true);
+      expect(matchesRepeatRule('2024-01-06', rule)).toBe(false);
+    });
+  });
+
+  describe('getInstanceId', () => {
+    it('builds timed and all-day instance ids', () => {
+      expect(getInstanceId('abc', '2024-01-08T10:00:00+09:00', false)).toBe(
+        'abc_20240108T010000Z'
+      );
+      expect(getInstanceId('abc', '2024-01-08T00:00:00+09:00', true)).toBe(
+        'abc_20240108'
+      );
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isStaleLock, RunLock, RunLockInfo } from '../src/common/runLock';
+
+describe('isStaleLock', () => {
+  const now = Date.parse('2024-01-01T00:10:00Z');
+
+  it('treats a lock without a recent heartbeat as stale', () => {
+    const info: RunLockInfo = {
+      pid: process.pid,
+      hostname: 'other-host',
+      startedAt: '2024-01-01T00:00:00Z',
+      heartbeatAt: '2024-01-01T00:04:00Z',
+    };
+
+    expect(isStaleLock(info, 5 * 60 * 1000, now)).toBe(true);
+    expect(isStaleLock(info, 10 * 60 * 1000, now)).toBe(false);
+  });
+
+  it('treats a lock held by an exited process on this host as stale', () => {
+    const info: RunLockInfo = {
+      pid: 2 ** 22 + 1,
+      hostname: os.hostname(),
+      startedAt: '2024-01-01T00:09:00Z',
+      heartbeatAt: '2024-01-01T00:09:30Z',
+    };
+
+    expect(isStaleLock(info, 5 * 60 * 1000, now)).toBe(true);
+  });
+});
+
+describe('RunLock', () => {
+  let dir: string;
+  let lockPath: string;
+  let locks: RunLock[];
+
+  /**
+   * テスト用のロックを作成（テスト終了時に解放する）
+   */
+  function createLock(): RunLock {
+    const lock = new RunLock(lockPath);
+    locks.push(lock);
+    return lock;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-lock-'));
+    lockPath = path.join(dir, 'sync.lock');
+    locks = [];
+  });
+
+  afterEach(() => {
+    locks.forEach((lock) => lock.release());
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('allows only one holder at a time', () => {
+    const first = createLock();
+    const second = createLock();
+
+    expect(first.tryAcquire()).toBe(true);
+    expect(second.tryAcquire()).toBe(false);
+    expect(second.readHolder()?.pid).toBe(process.pid);
+
+    first.release();
+
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(second.tryAcquire()).toBe(true);
+  });
+
+  it('takes over a lock left by an exited process', () => {
+    const now = new Date().toISOString();
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({
+        pid: 2 ** 22 + 1,
+        hostname: os.hostname(),
+        startedAt: now,
+        heartbeatAt: now,
+      })
+    );
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const lock = createLock();
+
+    expect(lock.tryAcquire()).toBe(true);
+    expect(lock.readHolder()?.pid).toBe(process.pid);
+  });
+
+  it('does not take over a lock another process has already taken over', () => {
+    const now = new Date().toISOString();
+    const live: RunLockInfo = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      startedAt: now,
+      heartbeatAt: now,
+    };
+    fs.writeFileSync(lockPath, JSON.stringify(live));
+    // 放棄されたロックと判定した後に、他のプロセスが引き継いだ状態にする
+    jest.spyOn(RunLock.prototype, 'readHolder').mockReturnValueOnce({
+      ...live,
+      pid: 2 ** 22 + 1,
+    });
+
+    expect(createLock().tryAcquire()).toBe(false);
+    expect(JSON.parse(fs.readFileSync(lockPath, 'utf8'))).toEqual(live);
+    expect(fs.existsSync(`${lockPath}.takeover`)).toBe(false);
+  });
+
+  it('does not take over a lock while another process is taking it over', () => {
+    fs.writeFileSync(lockPath, '');
+    fs.utimesSync(lockPath, new Date(0), new Date(0));
+    fs.writeFileSync(`${lockPath}.takeover`, '');
+
+    expect(createLock().tryAcquire()).toBe(false);
+    expect(fs.existsSync(lockPath)).toBe(true);
+  });
+
+  it('does not take over a lock that is still being written', () => {
+    fs.writeFileSync(lockPath, '');
+
+    expect(createLock().tryAcquire()).toBe(false);
+  });
+
+  it('does not remove a lock taken over by another process', () => {
+    const lock = createLock();
+    lock.tryAcquire();
+
+    const now = new Date().toISOString();
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({
+        pid: process.pid + 1,
+        hostname: 'other-host',
+        startedAt: now,
+        heartbeatAt: now,
+      })
+    );
+    lock.release();
+
+    expect(fs.existsSync(lockPath)).toBe(true);
+  });
+});
@@ -0,0 +1,716 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getDefaultConfig } from '../src/common/config';
+import { SyncDatabase } from '../src/common/database';
+import { RunLock } from '../src/common/runLock';
+import { SyncService } from '../src/google/sync';
+import { getDeterministicEventId } from '../src/google/eventId';
+import { AppConfig } from '../src/types/config';
+import { GaroonEvent, GaroonRepeatInfo } from '../src/types/garoon';
+import { GoogleEvent } from '../src/types/google';
+
+// Google Calendarの代わりにイベントをメモリ上に保持する
+class FakeCalendar {
+  events = new Map<string, GoogleEvent>();
+
+  createEvent = jest.fn(async (event: GoogleEvent) => {
+    const id = event.id || `created-${this.events.size + 1}`;
+    this.events.set(id, { ...event, id });
+    return id;
+  });
+
+  updateEvent = jest.fn(async (eventId: string, event: GoogleEvent) => {
+    this.events.set(eventId, { ...event, id: eventId });
+  });
+
+  deleteEvent = jest.fn(async (eventId: string) => {
+    if (!this.events.delete(eventId)) {
+      throw new Error('404 Not Found');
+    }
+  });
+
+  getEvent = jest.fn(
+    async (eventId: string) => this.events.get(eventId) ?? null
+  );
+
+  listSyncedEvents = jest.fn(async (garoonEventId: string) =>
+    [...this.events.values()].filter(
+      (e) => e.extendedProperties?.private?.garoonEventId === garoonEventId
+    )
+  );
+
+  listChanges = jest.fn(async () => ({
+    events: [] as GoogleEvent[],
+    nextSyncToken: '',
+    fullSync: false,
+  }));
+}
+
+const mockGaroon = {
+  getScheduleWithStatus: jest.fn(),
+  getEvent: jest.fn(),
+  findEvent: jest.fn(),
+  listUsers: jest.fn(),
+};
+let mockCalendar: FakeCalendar;
+
+jest.mock('../src/common/garoon', () => ({
+  GaroonClient: jest.fn(() => mockGaroon),
+}));
+jest.mock('../src/google/calendar', () => ({
+  GoogleCalendarClient: jest.fn(() => mockCalendar),
+}));
+const mockNotification = {
+  sendSyncResultNotification: jest.fn(),
+  sendErrorNotification: jest.fn(),
+  sendConflictNotification: jest.fn(),
+  sendDeletionBlockedNotification: jest.fn(),
+};
+
+jest.mock('../src/common/notification', () => ({
+  NotificationService: jest.fn(() => mockNotification),
+}));
+
+describe('SyncService', () => {
+  let dir: string;
+
+  const weekly: GaroonRepeatInfo = {
+    type: 'EVERY_WEEK',
+    period: { start: '2024-01-01', end: '2024-03-31' },
+    time: { start: '10:00:00', end: '11:00:00' },
+    timeZone: 'Asia/Tokyo',
+    isAllDay: false,
+    isStartOnly: false,
+    dayOfWeek: 'MON',
+  };
+
+  const createEvent = (
+    id: string,
+    start: string,
+    end: string,
+    overrides: Partial<GaroonEvent> = {}
+  ): GaroonEvent => ({
+    id,
+    subject: `予定${id}`,
+    start: { dateTime: start, timeZone: 'Asia/Tokyo' },
+    end: { dateTime: end, timeZone: 'Asia/Tokyo' },
+    isAllDay: false,
+    attendees: [],
+    visibilityType: 'PUBLIC',
+    eventType: 'REGULAR',
+    updatedAt: '2024-01-01T00:00:00Z',
+    createdAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  const createGoogleEvent = (id: string): GoogleEvent => ({
+    id,
+    summary: id,
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+  });
+
+  const createConfig = (): AppConfig => {
+    const config = getDefaultConfig();
+    config.garoon.apiToken = 'token';
+    // 存在するファイルであれば検証を通過する
+    config.google.credentials = 'package.json';
+    config.sync.defaultTimeZone = 'Asia/Tokyo';
+    config.database.path = path.join(dir, 'sync.db');
+    return config;
+  };
+
+  const setGaroonEvents = (events: GaroonEvent[]) =>
+    mockGaroon.getScheduleWithStatus.mockResolvedValue({
+      events,
+      failedTargets: [],
+    });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-service-'));
+    mockCalendar = new FakeCalendar();
+    mockGaroon.getScheduleWithStatus.mockReset();
+    mockGaroon.findEvent.mockReset().mockResolvedValue(null);
+    Object.values(mockNotification).forEach((fn) => fn.mockClear());
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('run lock', () => {
+    it('does not open the database while another sync is running', async () => {
+      const config = createConfig();
+      const lock = new RunLock(path.join(dir, 'sync.lock'));
+      lock.tryAcquire();
+      setGaroonEvents([]);
+
+      try {
+        await expect(
+          new SyncService(config).syncEvents('2024-01-08', '2024-01-14')
+        ).rejects.toThrow('別の同期処理が実行中');
+      } finally {
+        lock.release();
+      }
+
+      expect(fs.existsSync(config.database.path)).toBe(false);
+    });
+
+    it('releases the lock when the database cannot be opened', async () => {
+      const config = createConfig();
+      config.database.backend = 'json';
+      fs.writeFileSync(
+        path.join(dir, 'sync.json'),
+        JSON.stringify({ version: 999, events: {}, logs: [], lastLogId: 0 })
+      );
+
+      await expect(
+        new SyncService(config).syncEvents('2024-01-08', '2024-01-14')
+      ).rejects.toThrow(/新しいバージョン/);
+
+      expect(fs.existsSync(path.join(dir, 'sync.lock'))).toBe(false);
+    });
+
+    it('releases the lock when the commit fails', async () => {
+      jest
+        .spyOn(SyncDatabase.prototype, 'commitTransaction')
+        .mockImplementation(() => {
+          throw new Error('disk full');
+        });
+      setGaroonEvents([]);
+
+      await expect(
+        new SyncService(createConfig()).syncEvents('2024-01-08', '2024-01-14')
+      ).rejects.toThrow('disk full');
+
+      expect(fs.existsSync(path.join(dir, 'sync.lock'))).toBe(false);
+    });
+
+    it('closes the database after each run', async () => {
+      const close = jest.spyOn(SyncDatabase.prototype, 'close');
+      setGaroonEvents([]);
+      const service = new SyncService(createConfig());
+
+      await service.syncEvents('2024-01-08', '2024-01-14');
+      await service.planSync('2024-01-08', '2024-01-14');
+
+      expect(close).toHaveBeenCalledTimes(2);
+    });
+
+    it('reads records written after the service was created', async () => {
+      const config = createConfig();
+      config.database.backend = 'json';
+      const service = new SyncService(config);
+      const db = new SyncDatabase(config);
+      db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z', {
+        eventStart: '2024-01-10T10:00:00+09:00',
+        eventEnd: '2024-01-10T11:00:00+09:00',
+      });
+      db.close();
+      mockCalendar.events.set('google-100', createGoogleEvent('google-100'));
+      setGaroonEvents([]);
+
+      await service.syncEvents('2024-01-08', '2024-01-14');
+
+      expect(mockCalendar.deleteEvent).toHaveBeenCalledWith('google-100');
+    });
+  });
+
+  describe('plan', () => {
+    // ディレクトリ内のファイル名と内容を取得
+    const snapshot = () =>
+      Object.fromEntries(
+        fs
+          .readdirSync(dir)
+          .map((f) => [
+          f,
+          crypto
+            .createHash('sha1')
+            .update(fs.readFileSync(path.join(dir, f)))
+            .digest('hex'),
+        ])
+      );
+
+    it('plans moved occurrences of an unchanged series without side effects', async () => {
+      const config = createConfig();
+      config.google.subject = 'user@example.com';
+      config.sync.attendees = {
+        invite: true,
+        sendUpdates: 'none',
+        useGaroonDirectory: true,
+        cacheHours: 24,
+      };
+      mockGaroon.listUsers.mockResolvedValue([]);
+      const occurrence = (start: string, end: string) =>
+        createEvent('100', start, end, {
+          eventType: 'REPEATING',
+          repeatInfo: weekly,
+        });
+      setGaroonEvents([
+        occurrence('2024-01-08T10:00:00+09:00', '2024-01-08T11:00:00+09:00'),
+      ]);
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      // 計画モードではユーザー一覧のキャッシュを保存し直さない
+      fs.rmSync(path.join(dir, 'garoon-users.json'));
+      const before = snapshot();
+      const { events } = mockCalendar;
+      mockCalendar = new FakeCalendar();
+      mockCalendar.events = events;
+      setGaroonEvents([
+        occurrence('2024-01-08T16:00:00+09:00', '2024-01-08T17:00:00+09:00'),
+      ]);
+
+      const plan = await new SyncService(config).planSync(
+        '2024-01-08',
+        '2024-01-14'
+      );
+
+      expect(plan.unchanged).toBe(1);
+      expect(plan.actions).toEqual([
+        expect.objectContaining({ type: 'UPDATE', garoonEventId: '100' }),
+      ]);
+      expect(mockCalendar.createEvent).not.toHaveBeenCalled();
+      expect(mockCalendar.updateEvent).not.toHaveBeenCalled();
+      expect(mockCalendar.deleteEvent).not.toHaveBeenCalled();
+      expect(snapshot()).toEqual(before);
+    });
+
+    it('does not create or migrate the database', async () => {
+      const config = createConfig();
+      const db = new SyncDatabase({
+        ...config,
+        database: { ...config.database, backend: 'json' },
+      });
+      db.saveSyncInfo('100', 'google-100', '2024-01-01T00:00:00Z');
+      db.close();
+      const before = snapshot();
+      setGaroonEvents([]);
+
+      await new SyncService(config).planSync('2024-01-08', '2024-01-14');
+
+      expect(snapshot()).toEqual(before);
+    });
+
+    it('lists conflicts held for review', async () => {
+      const config = createConfig();
+      config.sync.writeBack = {
+        enabled: true,
+        conflictPolicy: 'review',
+        fields: ['location'],
+      };
+      const event = createEvent(
+        '100',
+        '2024-01-10T10:00:00+09:00',
+        '2024-01-10T11:00:00+09:00'
+      );
+      setGaroonEvents([event]);
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      // Google側とガルーン側の両方で編集する
+      const [googleEvent] = [...mockCalendar.events.values()];
+      const edited = { ...googleEvent, location: '会議室B' };
+      mockCalendar.events.set(edited.id!, edited);
+      mockCalendar.listChanges.mockResolvedValue({
+        events: [edited],
+        nextSyncToken: '',
+        fullSync: false,
+      });
+      setGaroonEvents([{ ...event, updatedAt: '2024-01-02T00:00:00Z' }]);
+
+      const plan = await new SyncService(config).planSync(
+        '2024-01-08',
+        '2024-01-14'
+      );
+
+      expect(plan.actions).toEqual([
+        expect.objectContaining({
+          type: 'CONFLICT',
+          garoonEventId: '100',
+          googleEventId: edited.id,
+        }),
+      ]);
+      expect(mockNotification.sendConflictNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    it('saves the mapping of an event left by an interrupted run', async () => {
+      const config = createConfig();
+      const eventId = getDeterministicEventId('100', 'default');
+      // 前回の同期でGoogleイベントを作成した後、同期情報を保存する前に中断した状態
+      mockCalendar.events.set(eventId, createGoogleEvent(eventId));
+      setGaroonEvents([
+        createEvent(
+          '100',
+          '2024-01-10T10:00:00+09:00',
+          '2024-01-10T11:00:00+09:00'
+        ),
+      ]);
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      expect(mockCalendar.createEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ id: eventId })
+      );
+      expect(mockCalendar.events.size).toBe(1);
+      const db = new SyncDatabase(config);
+      expect(db.getSyncInfo('100')?.googleEventId).toBe(eventId);
+      db.close();
+    });
+  });
+
+  describe('private events', () => {
+    const privateEvent = createEvent(
+      '100',
+      '2024-01-10T10:00:00+09:00',
+      '2024-01-10T11:00:00+09:00',
+      {
+        visibilityType: 'PRIVATE',
+        notes: '人事面談',
+        attendees: [{ id: '1', code: 'sato', name: '佐藤', type: 'USER' }],
+        facilities: [{ id: '2', code: 'room-a', name: '会議室A' }],
+      }
+    );
+    const eventId = getDeterministicEventId('100', 'default');
+
+    it('syncs only the time of a busy placeholder', async () => {
+      const config = createConfig();
+      config.sync.privateEvents = 'busy';
+      setGaroonEvents([privateEvent]);
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      const placeholder = mockCalendar.events.get(eventId);
+      expect(placeholder).toMatchObject({
+        summary: '予定あり',
+        description: '',
+        location: '',
+        visibility: 'private',
+        start: { dateTime: '2024-01-10T10:00:00+09:00' },
+        end: { dateTime: '2024-01-10T11:00:00+09:00' },
+      });
+      expect(placeholder?.attendees).toBeUndefined();
+      expect(JSON.stringify(placeholder)).not.toMatch(/人事面談|佐藤|会議室A/);
+    });
+
+    it('excludes only private events with the legacy flag', async () => {
+      const config = createConfig();
+      config.sync.excludePrivate = true;
+      setGaroonEvents([
+        privateEvent,
+        createEvent(
+          '200',
+          '2024-01-11T10:00:00+09:00',
+          '2024-01-11T11:00:00+09:00',
+          { visibilityType: 'SET_PRIVATE_WATCHERS' }
+        ),
+      ]);
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      expect(mockCalendar.events.has(eventId)).toBe(false);
+      expect(
+        mockCalendar.events.has(getDeterministicEventId('200', 'default'))
+      ).toBe(true);
+    });
+
+    it('deletes busy placeholders after switching to exclude', async () => {
+      const config = createConfig();
+      config.sync.privateEvents = 'busy';
+      setGaroonEvents([privateEvent]);
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+      expect(mockCalendar.events.has(eventId)).toBe(true);
+
+      config.sync.privateEvents = 'exclude';
+      mockGaroon.findEvent.mockResolvedValue(privateEvent);
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      expect(mockCalendar.events.has(eventId)).toBe(false);
+    });
+  });
+
+  describe('update', () => {
+    it('adopts an event synced under another ID instead of duplicating it', async () => {
+      const config = createConfig();
+      const db = new SyncDatabase(config);
+      db.saveSyncInfo('100', 'missing', '2023-12-01T00:00:00Z');
+      db.close();
+      mockCalendar.events.set('restored', {
+        ...createGoogleEvent('restored'),
+        extendedProperties: { private: { garoonEventId: '100' } },
+      });
+      setGaroonEvents([
+        createEvent(
+          '100',
+          '2024-01-10T10:00:00+09:00',
+          '2024-01-10T11:00:00+09:00'
+        ),
+      ]);
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      expect(mockCalendar.listSyncedEvents).toHaveBeenCalledWith('100');
+      expect(mockCalendar.createEvent).not.toHaveBeenCalled();
+      expect(mockCalendar.updateEvent).toHaveBeenCalledWith(
+        'restored',
+        expect.objectContaining({ summary: '予定100' })
+      );
+      const saved = new SyncDatabase(config);
+      expect(saved.getSyncInfo('100')?.googleEventId).toBe('restored');
+      saved.close();
+    });
+  });
+
+  describe('recurring events', () => {
+    it('uses the offset of the first date across daylight saving time', async () => {
+      const summer = (start: string, end: string) =>
+        createEvent('100', start, end, {
+          eventType: 'REPEATING',
+          start: { dateTime: start, timeZone: 'America/New_York' },
+          end: { dateTime: end, timeZone: 'America/New_York' },
+          repeatInfo: { ...weekly, timeZone: 'America/New_York' },
+        });
+      setGaroonEvents([
+        summer('2024-07-01T10:00:00-04:00', '2024-07-01T11:00:00-04:00'),
+      ]);
+
+      await new SyncService(createConfig()).syncEvents(
+        '2024-07-01',
+        '2024-07-07'
+      );
+
+      const series = mockCalendar.events.get(
+        getDeterministicEventId('100', 'default')
+      );
+      expect(series?.start).toEqual({
+        dateTime: '2024-01-01T10:00:00-05:00',
+        timeZone: 'America/New_York',
+      });
+      expect(series?.end).toEqual({
+        dateTime: '2024-01-01T11:00:00-05:00',
+        timeZone: 'America/New_York',
+      });
+      expect(series?.recurrence).toEqual([
+        'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20240401T035959Z',
+      ]);
+      // 夏時間の回も本来の時刻どおりのため、回ごとの変更として扱わない
+      expect(mockCalendar.updateEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deletion', () => {
+    // 同期済みのイベントを記録し、Google側にも作成しておく
+    const seed = (
+      config: AppConfig,
+      records: {
+        id: string;
+        eventStart?: string;
+        eventEnd?: string;
+        recurring?: boolean;
+      }[]
+    ) => {
+      const db = new SyncDatabase(config);
+      for (const record of records) {
+        const googleEventId = `google-${record.id}`;
+        db.saveSyncInfo(record.id, googleEventId, '2024-01-01T00:00:00Z', {
+          eventStart: record.eventStart,
+          eventEnd: record.eventEnd,
+          recurring: record.recurring,
+        });
+        mockCalendar.events.set(googleEventId, createGoogleEvent(googleEventId));
+      }
+      db.close();
+    };
+
+    const deletedIds = () =>
+      mockCalendar.deleteEvent.mock.calls.map(([id]) => id);
+
+    it('only deletes records overlapping a narrow window', async () => {
+      const config = createConfig();
+      seed(config, [
+        {
+          id: '100',
+          eventStart: '2024-01-10T10:00:00+09:00',
+          eventEnd: '2024-01-10T11:00:00+09:00',
+        },
+        {
+          id: '200',
+          eventStart: '2024-02-10T10:00:00+09:00',
+          eventEnd: '2024-02-10T11:00:00+09:00',
+        },
+      ]);
+      setGaroonEvents([]);
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      expect(deletedIds()).toEqual(['google-100']);
+    });
+
+    it('deletes legacy records without times only in the default window', async () => {
+      const config = createConfig();
+      seed(config, [{ id: '100' }]);
+      setGaroonEvents([]);
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+      expect(deletedIds()).toEqual([]);
+
+      await new SyncService(config).syncEvents();
+      expect(deletedIds()).toEqual(['google-100']);
+    });
+
+    it('keeps a series without occurrences in the window', async () => {
+      const config = createConfig();
+      seed(config, [
+        {
+          id: '100',
+          eventStart: '2024-01-01T10:00:00+09:00',
+          eventEnd: '2024-03-31T23:59:59+09:00',
+        },
+      ]);
+      setGaroonEvents([]);
+      mockGaroon.findEvent.mockResolvedValue(
+        createEvent(
+          '100',
+          '2024-01-01T10:00:00+09:00',
+          '2024-01-01T11:00:00+09:00',
+          { eventType: 'REPEATING', repeatInfo: weekly }
+        )
+      );
+
+      // 2024-01-02〜07には月曜日の回がない
+      await new SyncService(config).syncEvents('2024-01-02', '2024-01-07');
+      expect(deletedIds()).toEqual([]);
+
+      // 回がある期間で取得されなかった場合は削除する
+      await new SyncService(config).syncEvents('2024-01-02', '2024-01-08');
+      expect(deletedIds()).toEqual(['google-100']);
+    });
+
+    it('notifies held deletions only when they change', async () => {
+      const config = createConfig();
+      config.sync.deletionSafety = { maxDeletions: 1, maxFetchDropRatio: 1 };
+      const record = (id: string) => ({
+        id,
+        eventStart: '2024-01-10T10:00:00+09:00',
+        eventEnd: '2024-01-10T11:00:00+09:00',
+      });
+      seed(config, [record('100'), record('200')]);
+      setGaroonEvents([]);
+      const notified = () =>
+        mockNotification.sendDeletionBlockedNotification.mock.calls.length;
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+      expect(notified()).toBe(1);
+
+      seed(config, [record('300')]);
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+      expect(notified()).toBe(2);
+      expect(deletedIds()).toEqual([]);
+    });
+
+    it('does not look up events recorded as not recurring', async () => {
+      const config = createConfig();
+      seed(config, [
+        {
+          id: '100',
+          eventStart: '2024-01-10T10:00:00+09:00',
+          eventEnd: '2024-01-10T11:00:00+09:00',
+          recurring: false,
+        },
+      ]);
+      setGaroonEvents([]);
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      expect(mockGaroon.findEvent).not.toHaveBeenCalled();
+      expect(deletedIds()).toEqual(['google-100']);
+    });
+
+    it('keeps records when the Garoon lookup fails', async () => {
+      const config = createConfig();
+      seed(config, [
+        {
+          id: '100',
+          eventStart: '2024-01-10T10:00:00+09:00',
+          eventEnd: '2024-01-10T11:00:00+09:00',
+        },
+      ]);
+      setGaroonEvents([]);
+      mockGaroon.findEvent.mockRejectedValue(new Error('timeout'));
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      expect(deletedIds()).toEqual([]);
+    });
+  });
+
+  describe('event filter', () => {
+    it('keeps a series when only some occurrences are excluded', async () => {
+      const config = createConfig();
+      config.sync.filter = {
+        defaultAction: 'include',
+        rules: [
+          { name: 'afternoon', action: 'exclude', startTimeFrom: '15:00' },
+        ],
+      };
+      const occurrence = (start: string, end: string) =>
+        createEvent('100', start, end, {
+          eventType: 'REPEATING',
+          repeatInfo: weekly,
+        });
+      setGaroonEvents([
+        occurrence('2024-01-08T10:00:00+09:00', '2024-01-08T11:00:00+09:00'),
+        occurrence('2024-01-15T16:00:00+09:00', '2024-01-15T17:00:00+09:00'),
+        createEvent(
+          '200',
+          '2024-01-09T16:00:00+09:00',
+          '2024-01-09T17:00:00+09:00'
+        ),
+      ]);
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-21');
+
+      const seriesId = getDeterministicEventId('100', 'default');
+      expect(mockCalendar.events.has(seriesId)).toBe(true);
+      expect(mockCalendar.deleteEvent).not.toHaveBeenCalledWith(seriesId);
+      expect(
+        mockCalendar.events.has(getDeterministicEventId('200', 'default'))
+      ).toBe(false);
+    });
+
+    it('keeps a series when only a moved occurrence is in the window', async () => {
+      const config = createConfig();
+      config.sync.filter = {
+        defaultAction: 'include',
+        rules: [{ action: 'exclude', startTimeFrom: '15:00' }],
+      };
+      const series = createEvent(
+        '100',
+        '2024-01-08T16:00:00+09:00',
+        '2024-01-08T17:00:00+09:00',
+        { eventType: 'REPEATING', repeatInfo: weekly }
+      );
+      setGaroonEvents([series]);
+      mockGaroon.findEvent.mockResolvedValue(series);
+      const seriesId = getDeterministicEventId('100', 'default');
+      mockCalendar.events.set(seriesId, createGoogleEvent(seriesId));
+      const db = new SyncDatabase(config);
+      db.saveSyncInfo('100', seriesId, '2024-01-01T00:00:00Z', {
+        eventStart: '2024-01-01T10:00:00+09:00',
+        eventEnd: '2024-03-31T23:59:59+09:00',
+      });
+      db.close();
+
+      await new SyncService(config).syncEvents('2024-01-08', '2024-01-14');
+
+      expect(mockCalendar.events.has(seriesId)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  buildTemplateContext,
+  DEFAULT_TEMPLATES,
+  renderTemplate,
+  truncateText,
+  validateTemplate,
+} from '../src/common/template';
+import { GaroonEvent } from '../src/types/garoon';
+
+describe('renderTemplate', () => {
+  it('replaces fields including dotted paths', () => {
+    expect(
+      renderTemplate('{{subject}} ({{ start.dateTime }})', {
+        subject: '定例',
+        start: { dateTime: '2024-01-10T10:00:00+09:00' },
+      })
+    ).toBe('定例 (2024-01-10T10:00:00+09:00)');
+  });
+
+  it('renders missing fields and objects as empty strings', () => {
+    expect(renderTemplate('[{{missing}}][{{start}}]', { start: {} })).toBe(
+      '[][]'
+    );
+  });
+
+  it('supports nested conditionals with else branches', () => {
+    const template =
+      '{{#if eventMenu}}{{#if notes}}{{eventMenu}}*{{else}}{{eventMenu}}{{/if}}{{else}}なし{{/if}}';
+
+    expect(renderTemplate(template, { eventMenu: '会議', notes: 'メモ' })).toBe(
+      '会議*'
+    );
+    expect(renderTemplate(template, { eventMenu: '会議', notes: '' })).toBe(
+      '会議'
+    );
+    expect(renderTemplate(template, { attendees: [] })).toBe('なし');
+  });
+
+  it('rejects unbalanced conditionals', () => {
+    expect(() => validateTemplate('{{#if subject}}{{subject}}')).toThrow(
+      '閉じられていません'
+    );
+    expect(() => validateTemplate('{{subject}}{{/if}}')).toThrow(
+      '対応する{{#if}}がありません'
+    );
+    expect(() => validateTemplate('{{else}}')).toThrow(
+      '対応する{{#if}}がありません'
+    );
+  });
+});
+
+describe('truncateText', () => {
+  it('keeps text within the limit unchanged', () => {
+    expect(truncateText('abc', 3)).toBe('abc');
+  });
+
+  it('truncates with an ellipsis without splitting surrogate pairs', () => {
+    expect(truncateText('abcdef', 4)).toBe('abc…');
+    expect(truncateText('a😀b', 3)).toBe('a…');
+    expect(truncateText('a😀b', 3).length).toBeLessThanOrEqual(3);
+  });
+});
+
+describe('buildTemplateContext', () => {
+  const event: GaroonEvent = {
+    id: '100',
+    eventMenu: '会議',
+    subject: '定例',
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    isAllDay: false,
+    notes: 'メモ',
+    attendees: [
+      { id: '1', code: 'sato', name: '佐藤', type: 'USER' },
+      { id: '2', code: 'suzuki', name: '鈴木', type: 'USER' },
+      { id: '3', code: 'room-a', name: '会議室A', type: 'FACILITY' },
+    ],
+    visibilityType: 'PUBLIC',
+    eventType: 'REGULAR',
+    updatedAt: '2024-01-01T00:00:00Z',
+    createdAt: '2024-01-01T00:00:00Z',
+    location: '本社',
+  };
+
+  it('exposes event fields and derived values', () => {
+    const context = buildTemplateContext(
+      event,
+      '佐藤, 鈴木',
+      'https://example.cybozu.com/'
+    );
+
+    expect(
+      renderTemplate(
+        '{{subject}} / {{attendeeCount}}名 / {{facilityNames}} / {{garoonUrl}}',
+        context
+      )
+    ).toBe(
+      '定例 / 2名 / 会議室A / https://example.cybozu.com/g/schedule/view.csp?event=100'
+    );
+  });
+
+  it('renders the default templates', () => {
+    const context = buildTemplateContext(
+      event,
+      '佐藤, 鈴木',
+      'https://example.cybozu.com'
+    );
+
+    expect(renderTemplate(DEFAULT_TEMPLATES.summary, context)).toBe(
+      '会議: 定例'
+    );
+    expect(renderTemplate(DEFAULT_TEMPLATES.description, context)).toBe(
+      'メモ\n\n参加者: 佐藤, 鈴木\n\n(ガルーンから同期)'
+    );
+    expect(renderTemplate(DEFAULT_TEMPLATES.location, context)).toBe(
+      '会議室A / 本社'
+    );
+
+    const bare = buildTemplateContext(
+      { ...event, eventMenu: undefined, notes: undefined, location: undefined },
+      '',
+      'https://example.cybozu.com'
+    );
+    expect(renderTemplate(DEFAULT_TEMPLATES.summary, bare)).toBe('定例');
+    expect(renderTemplate(DEFAULT_TEMPLATES.location, bare)).toBe('会議室A');
+    expect(renderTemplate(DEFAULT_TEMPLATES.description, bare)).toBe(
+      '\n\n(ガルーンから同期)'
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  expandTemporaryCandidates,
+  getTemporaryEventPeriod,
+  isTemporaryEvent,
+} from '../src/common/temporaryEvents';
+import { GaroonEvent } from '../src/types/garoon';
+
+describe('temporary events', () => {
+  const time = (dateTime: string) => ({ dateTime, timeZone: 'Asia/Tokyo' });
+
+  const event: GaroonEvent = {
+    id: '100',
+    subject: '打ち合わせ',
+    start: time('2024-01-10T10:00:00+09:00'),
+    end: time('2024-01-10T11:00:00+09:00'),
+    isAllDay: false,
+    attendees: [
+      { id: '1', code: 'sato', name: '佐藤', type: 'USER' },
+      { id: '3', code: 'room-a', name: '会議室A', type: 'FACILITY' },
+    ],
+    visibilityType: 'PUBLIC',
+    eventType: 'TEMPORARY',
+    updatedAt: '2024-01-01T00:00:00Z',
+    createdAt: '2024-01-01T00:00:00Z',
+    temporaryEventCandidates: [
+      {
+        start: time('2024-01-12T15:00:00+09:00'),
+        end: time('2024-01-12T16:00:00+09:00'),
+      },
+      {
+        start: time('2024-01-10T10:00:00+09:00'),
+        end: time('2024-01-10T11:00:00+09:00'),
+        facility: { id: '4', code: 'room-b', name: '会議室B' },
+      },
+    ],
+  };
+
+  it('detects temporary events', () => {
+    expect(isTemporaryEvent(event)).toBe(true);
+    expect(isTemporaryEvent({ ...event, eventType: 'REGULAR' })).toBe(false);
+  });
+
+  it('expands each candidate with its own time and facility', () => {
+    const [first, second] = expandTemporaryCandidates(event);
+
+    expect(first.start.dateTime).toBe('2024-01-12T15:00:00+09:00');
+    expect(first.end.dateTime).toBe('2024-01-12T16:00:00+09:00');
+    expect(first.attendees).toBe(event.attendees);
+
+    expect(second.start.dateTime).toBe('2024-01-10T10:00:00+09:00');
+    expect(second.facilities).toEqual([
+      { id: '4', code: 'room-b', name: '会議室B' },
+    ]);
+    expect(second.attendees.map((a) => a.name)).toEqual(['佐藤']);
+  });
+
+  it('uses the event itself when no candidates are returned', () => {
+    const bare = { ...event, temporaryEventCandidates: undefined };
+
+    expect(expandTemporaryCandidates(bare)).toEqual([bare]);
+  });
+
+  it('spans every candidate', () => {
+    expect(getTemporaryEventPeriod(event)).toEqual({
+      start: '2024-01-10T10:00:00+09:00',
+      end: '2024-01-12T16:00:00+09:00',
+    });
+  });
+});
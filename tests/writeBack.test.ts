@@ -0,0 +1,59 @@
+import {
+  buildGaroonUpdate,
+  getWriteBackValues,
+  hashWriteBackValues,
+  resolveConflict,
+} from '../src/google/writeBack';
+import { GoogleEvent } from '../src/types/google';
+
+describe('writeBack', () => {
+  const synced: GoogleEvent = {
+    summary: '会議: 定例',
+    location: '会議室A',
+    start: { dateTime: '2024-01-10T10:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    end: { dateTime: '2024-01-10T11:00:00+09:00', timeZone: 'Asia/Tokyo' },
+  };
+
+  it('ignores formatting differences when hashing', () => {
+    const fromApi: GoogleEvent = {
+      ...synced,
+      start: { dateTime: '2024-01-10T01:00:00Z', timeZone: 'Asia/Tokyo' },
+    };
+
+    expect(hashWriteBackValues(getWriteBackValues(fromApi, '会議'))).toBe(
+      hashWriteBackValues(getWriteBackValues(synced, '会議'))
+    );
+  });
+
+  it('builds a Garoon update from allowed fields only', () => {
+    const edited: GoogleEvent = {
+      ...synced,
+      summary: '会議: 定例（変更）',
+      location: '会議室B',
+      end: { dateTime: '2024-01-10T12:00:00+09:00', timeZone: 'Asia/Tokyo' },
+    };
+
+    const { update, diffs } = buildGaroonUpdate(
+      edited,
+      getWriteBackValues(synced, '会議'),
+      ['end', 'location'],
+      '会議'
+    );
+
+    expect(update).toEqual({
+      end: { dateTime: '2024-01-10T12:00:00+09:00', timeZone: 'Asia/Tokyo' },
+      location: '会議室B',
+    });
+    expect(diffs.map((d) => d.field)).toEqual(['end', 'location']);
+  });
+
+  it('resolves conflicts by the newest edit', () => {
+    expect(
+      resolveConflict('newest', '2024-01-01T00:00:00Z', '2024-01-02T00:00:00Z')
+    ).toBe('google');
+    expect(
+      resolveConflict('newest', '2024-01-03T00:00:00Z', '2024-01-02T00:00:00Z')
+    ).toBe('garoon');
+    expect(resolveConflict('review', '2024-01-03T00:00:00Z')).toBe('review');
+  });
+});